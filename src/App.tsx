@@ -1,98 +1,199 @@
 // src/App.tsx
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import Canvas from './components/Canvas';
 import Toolbar from './components/Toolbar';
 import PropertiesPanel from './components/PropertiesPanel';
-import { CircuitComponent, Wire, ToolMode, ComponentType, SubCircuit, Terminal } from './types/types'; // Import new types
+import SubcircuitEditor from './components/SubcircuitEditor';
+import StatusBar from './components/StatusBar';
+import PlotPanel from './components/PlotPanel';
+import TolerancePanel from './components/TolerancePanel';
+import { CircuitComponent, ToolMode, ComponentType, ViewSettings, Probe } from './types/types'; // Import new types
+import { PortProposal, proposePorts } from './subcircuits';
+import { useHistory } from './history';
+import { addComponent, updateComponent, deleteComponents, createSubcircuitFromSelection, orientComponents, Orientation } from './commands';
+import { PASTE_OFFSET, copyFragment, serializeFragment, parseFragment, pasteFragment } from './clipboard';
+import { DEFAULT_VIEW, ProjectError, parseProject, serializeProject } from './project';
+import { exportSpice, spiceAnalysesOf } from './spice/exporter';
+import { importSpice } from './spice/importer';
+import { screenToWorld } from './view';
+import { simulateCircuit, OperatingPoint, AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS } from './simulation/simulator';
+import { errorComponentOf } from './overlay';
+import { attachedProbes } from './probes';
 import './styles.css';
 
 import { COMPONENT_SIZE } from './constants';
 
 const App = () => {
-  const [components, setComponents] = useState<CircuitComponent[]>([]);
-  const [wires, setWires] = useState<Wire[]>([]);
+  // Components, wires and the subcircuit library are edited only through undoable commands
+  const { document: circuit, execute, undo, redo, reset, undoLabel, redoLabel } = useHistory();
+  const { components, wires, subcircuits } = circuit;
   const [selectedTool, setSelectedTool] = useState<ToolMode>('select');
   const [selectedComponentType, setSelectedComponentType] = useState<ComponentType>('resistor');
-  const [selectedItem, setSelectedItem] = useState<CircuitComponent | null>(null);
-  const [isBulbYellowMode, setIsBulbYellowMode] = useState(false);
-  // New state for custom subcircuits
-  const [subcircuits, setSubcircuits] = useState<SubCircuit[]>([]);
   // New state to track the component being dragged from the toolbar
   const [draggedComponentType, setDraggedComponentType] = useState<ComponentType | null>(null);
   const [draggedSubcircuitId, setDraggedSubcircuitId] = useState<string | null>(null);
+  // Selected component ids; also the parts picked while creating a subcircuit
+  const [selection, setSelection] = useState<string[]>([]);
+  const [view, setView] = useState<ViewSettings>(DEFAULT_VIEW);
+  // Probes are saved with the project but, like the view, are not part of the undo history.
+  // One whose wire or component is deleted is dropped; undoing the deletion does not bring it back.
+  const [probes, setProbes] = useState<Probe[]>([]);
+  const liveProbes = useMemo(() => attachedProbes(probes, components, wires), [probes, components, wires]);
+  const [plotOpen, setPlotOpen] = useState(false);
+  // Kept here rather than in the waveform viewer so the SPICE export can use them too
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS);
+  const [toleranceOpen, setToleranceOpen] = useState(false);
+  // The properties panel edits a single selected component
+  const selectedItem: CircuitComponent | null =
+    selection.length === 1 ? components.find(c => c.id === selection[0]) ?? null : null;
+
+  // The operating point follows every edit, once the circuit has been still for a moment
+  const [simulation, setSimulation] = useState<OperatingPoint | null>(null);
+  useEffect(() => {
+    const timer = setTimeout(() => setSimulation(simulateCircuit(components, wires, subcircuits)), SIMULATION_DELAY);
+    return () => clearTimeout(timer);
+  }, [components, wires, subcircuits]);
+  const errorComponentId = simulation ? errorComponentOf(simulation) : undefined;
+
+  const handleDeleteSelection = useCallback(() => {
+    if (selection.length === 0) return;
+    execute(deleteComponents(selection));
+    setSelection([]);
+  }, [selection, execute]);
+
+  const handleDuplicateSelection = useCallback(() => {
+    if (selection.length === 0) return;
+    const { command, ids } = pasteFragment(copyFragment(circuit, selection), PASTE_OFFSET, 'Duplicate');
+    execute(command);
+    setSelection(ids);
+  }, [circuit, selection, execute]);
 
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    if(event.key === 'y' || event.key === 'Y') {
-      setIsBulbYellowMode(true);
+    // Shortcuts stay out of text fields so those keep their own undo, delete and so on
+    const target = event.target as HTMLElement;
+    const editingText = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+    const command = event.ctrlKey || event.metaKey; // Cmd on macOS
+    if (!editingText && command && (event.key === 'z' || event.key === 'Z')) {
+      event.preventDefault();
+      if (event.shiftKey) redo();
+      else undo();
+      return;
     }
-  }, []);
-
-  const handleKeyUp = useCallback((event: KeyboardEvent) => {
-    if(event.key === 't' || event.key === 'T') {
-      setIsBulbYellowMode(false);
+    if (!editingText && command && (event.key === 'd' || event.key === 'D')) {
+      event.preventDefault();
+      handleDuplicateSelection();
+      return;
     }
-  }, []);
+    if (!editingText && (event.key === 'Delete' || event.key === 'Backspace')) {
+      event.preventDefault();
+      handleDeleteSelection();
+      return;
+    }
+    const orientation = !editingText && !command && !event.altKey ? ORIENTATION_KEYS[event.key.toLowerCase()] : undefined;
+    if (orientation && selection.length > 0) {
+      event.preventDefault();
+      execute(orientComponents(selection, event.key === 'R' ? 'rotateCounterClockwise' : orientation));
+      return;
+    }
+  }, [undo, redo, execute, selection, handleDuplicateSelection, handleDeleteSelection]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [handleKeyDown, handleKeyUp]);
+  }, [handleKeyDown]);
 
-  const handleCreateSubcircuit = useCallback(() => {
-    // This is where you'd initiate the subcircuit creation process.
+  // Copy and paste go through the system clipboard as text, so fragments can move between tabs
+  useEffect(() => {
+    const outsideTextField = (event: ClipboardEvent) =>
+      !['INPUT', 'TEXTAREA', 'SELECT'].includes((event.target as HTMLElement).tagName);
 
-    if (components.length < 2) {
-      alert("Please place at least two components on the canvas to create a subcircuit (for this simplified example).");
-      return;
-    }
+    const handleCopy = (event: ClipboardEvent) => {
+      if (!outsideTextField(event) || selection.length === 0 || !event.clipboardData) return;
+      event.clipboardData.setData('text/plain', serializeFragment(copyFragment(circuit, selection)));
+      event.preventDefault();
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (!outsideTextField(event) || !event.clipboardData) return;
+      const fragment = parseFragment(event.clipboardData.getData('text/plain'));
+      if (!fragment) return; // Not something copied from a schematic
+      event.preventDefault();
+      const { command, ids } = pasteFragment(fragment, PASTE_OFFSET);
+      execute(command);
+      setSelection(ids);
+    };
 
-    const newSubcircuitId = `custom_and_gate_${Date.now()}`;
-    const newSubcircuitName = prompt("Enter a name for your subcircuit (e.g., 'My AND Gate'):");
-
-    if (!newSubcircuitName) return;
-
-    // For this mock, let's take the first two components and remove them
-    // and assume they are input/output for simplification
-    const compsToAbsorb = components.slice(0, 2);
-    const wiresToAbsorb = wires.filter(wire =>
-      compsToAbsorb.some(c => c.id === wire.from.componentId || c.id === wire.to.componentId)
-    );
-
-    // Filter out the absorbed components and wires from the main canvas
-    setComponents(prev => prev.filter(c => !compsToAbsorb.includes(c)));
-    setWires(prev => prev.filter(w => !wiresToAbsorb.includes(w)));
-
-
-    const newSubcircuit: SubCircuit = {
-      id: newSubcircuitId,
-      name: newSubcircuitName,
-      internalComponents: compsToAbsorb.map(c => ({
-          ...c,
-          x: c.x - compsToAbsorb[0].x, // Make internal coords relative
-          y: c.y - compsToAbsorb[0].y
-      })),
-      internalWires: wiresToAbsorb,
-      inputs: [
-        { id: 'in1', name: 'Input 1', x: 0, y: COMPONENT_SIZE / 2 },
-        { id: 'in2', name: 'Input 2', x: 0, y: COMPONENT_SIZE / 2 + 20 }
-      ],
-      outputs: [
-        { id: 'out1', name: 'Output 1', x: 80, y: COMPONENT_SIZE / 2 + 10 }
-      ],
-      width: 100, // Example size for the subcircuit display
-      height: 60,
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
     };
+  }, [circuit, selection, execute]);
+
+  // Entering subcircuit_create lets the user pick components on the canvas; the
+  // SubcircuitEditor then proposes ports for the wires crossing the selection boundary.
+  // Any current selection becomes the starting point.
+  const handleCreateSubcircuit = useCallback(() => {
+    setSelectedTool('subcircuit_create');
+  }, []);
 
-    setSubcircuits(prev => [...prev, newSubcircuit]);
-    alert(`Subcircuit "${newSubcircuitName}" created and added to toolbar!`);
+  const proposedPorts = useMemo(
+    () => proposePorts(selection, components, wires, subcircuits),
+    [selection, components, wires, subcircuits]
+  );
+
+  const handleConfirmSubcircuit = useCallback((name: string, ports: PortProposal[]) => {
+    execute(createSubcircuitFromSelection(name, selection, ports));
+    setSelection([]);
     setSelectedTool('select'); // Return to select mode
-  }, [components, wires]);
+  }, [selection, execute]);
+
+  const handleCancelSubcircuit = useCallback(() => {
+    setSelection([]);
+    setSelectedTool('select');
+  }, []);
+
+  // Saving downloads the project as a JSON file
+  const handleSaveProject = useCallback(() => {
+    downloadFile('circuit.json', serializeProject({ components, wires, subcircuits, probes: liveProbes, view }), 'application/json');
+  }, [components, wires, subcircuits, liveProbes, view]);
+
+  const handleExportSpice = useCallback(() => {
+    // The deck runs the analysis set up in the waveform viewer
+    downloadFile('circuit.cir', exportSpice(components, wires, subcircuits, spiceAnalysesOf(analysisSettings)), 'text/plain');
+  }, [components, wires, subcircuits, analysisSettings]);
+
+  // Opening replaces the whole project; a file that fails validation leaves the current one untouched
+  const handleOpenProject = useCallback(async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      reset({ components: project.components, wires: project.wires, subcircuits: project.subcircuits });
+      setProbes(project.probes);
+      setView(project.view);
+      setSelection([]);
+      setSelectedTool('select');
+    } catch (e) {
+      if (!(e instanceof ProjectError)) throw e;
+      alert(`Could not open "${file.name}": ${e.message}`);
+    }
+  }, [reset]);
 
+  // Importing a netlist replaces the project; cards that could not be represented are reported
+  const handleImportSpice = useCallback(async (file: File) => {
+    const imported = importSpice(await file.text());
+    reset({ components: imported.components, wires: imported.wires, subcircuits: imported.subcircuits });
+    setProbes([]);
+    setSelection([]);
+    setSelectedTool('select');
+    if (imported.report.length > 0) {
+      const lines = imported.report.map(issue => `Line ${issue.line}: ${issue.reason}`);
+      alert(`Imported "${file.name}" with ${lines.length} issue${lines.length === 1 ? '' : 's'}:\n\n${lines.join('\n')}`);
+    }
+  }, [reset]);
 
   // Callback for when a component drag starts from the Toolbar
   const handleStartDragComponent = useCallback((type: ComponentType, subcircuitId?: string) => {
@@ -104,9 +205,11 @@ const App = () => {
   const handleDropComponent = useCallback((e: React.DragEvent) => {
     if (!draggedComponentType) return; // No component was being dragged
 
+    // The drop point is converted to world coordinates so zoom and pan are honoured
     const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left - COMPONENT_SIZE / 2;
-    const y = e.clientY - rect.top - COMPONENT_SIZE / 2;
+    const point = screenToWorld(view, e.clientX - rect.left, e.clientY - rect.top);
+    const x = point.x - COMPONENT_SIZE / 2;
+    const y = point.y - COMPONENT_SIZE / 2;
 
     const newComponent: CircuitComponent = {
       id: Date.now().toString(),
@@ -118,27 +221,19 @@ const App = () => {
 
     if (draggedComponentType === 'subcircuit' && draggedSubcircuitId) {
       newComponent.subcircuitId = draggedSubcircuitId;
-      // You'll need to set up the terminalMap here based on the subcircuit definition
-      // For now, let's keep it simple.
-      const subcircuitDef = subcircuits.find(s => s.id === draggedSubcircuitId);
-      if (subcircuitDef) {
-        newComponent.value = 0; // Subcircuits don't have a direct 'value'
-        // Create an initial terminal map. This needs to be dynamic based on the subcircuit's terminals
-        newComponent.terminalMap = {};
-        subcircuitDef.inputs.forEach(input => {
-          newComponent.terminalMap![input.id] = { componentId: '', terminal: 0 }; // Placeholder
-        });
-        subcircuitDef.outputs.forEach(output => {
-          newComponent.terminalMap![output.id] = { componentId: '', terminal: 0 }; // Placeholder
-        });
-      }
+      // Port-to-internal-terminal bindings live on the subcircuit definition, so the
+      // instance only needs to reference it
+      newComponent.value = 0; // Subcircuits don't have a direct 'value'
+    }
+    if (draggedComponentType === 'label' || draggedComponentType === 'rail') {
+      newComponent.netName = draggedComponentType === 'rail' ? 'VCC' : 'NET';
     }
 
-    setComponents((prev) => [...prev, newComponent]);
+    execute(addComponent(newComponent));
     setDraggedComponentType(null); // Reset dragged component
     setDraggedSubcircuitId(null);
     setSelectedTool('select'); // Switch to select mode after dropping
-  }, [draggedComponentType, draggedSubcircuitId, subcircuits, components]); // Added dependencies
+  }, [draggedComponentType, draggedSubcircuitId, execute, view]); // Added dependencies
 
   // Helper to get default value (moved from Canvas.tsx, now App.tsx manages it for new component creation)
   const getDefaultValue = (type: ComponentType): number => {
@@ -147,9 +242,19 @@ const App = () => {
       capacitor: 0.000001,
       inductor: 0.001,
       voltage: 5,
-      diode: 0.7,
+      current: 0.001,
+      vcvs: 10, // Controlled sources hold their gain
+      vccs: 0.001,
+      ccvs: 1000,
+      cccs: 10,
+      diode: 0, // Diodes are described by diodeModel
       transistor: 0,
       bulb: 0,
+      spst: 0, // Switches are described by switchModel
+      spdt: 0,
+      ground: 0, // Net symbols carry a name, not a value
+      label: 0,
+      rail: 0,
       subcircuit: 0, // Subcircuits don't have a 'value' in this context
     };
     return defaults[type];
@@ -166,35 +271,102 @@ const App = () => {
         subcircuits={subcircuits} // Pass subcircuits to Toolbar
         onStartDragComponent={handleStartDragComponent} // Pass drag start handler
         onCreateSubcircuit={handleCreateSubcircuit} // Pass subcircuit creation handler
+        onSaveProject={handleSaveProject}
+        onOpenProject={handleOpenProject}
+        onExportSpice={handleExportSpice}
+        onImportSpice={handleImportSpice}
+        plotOpen={plotOpen}
+        onTogglePlot={() => setPlotOpen(open => !open)}
+        toleranceOpen={toleranceOpen}
+        onToggleTolerance={() => setToleranceOpen(open => !open)}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onUndo={undo}
+        onRedo={redo}
       />
 
       <div className="main-content">
-        <Canvas
-          isBulbYellow={isBulbYellowMode}
-          components={components}
-          setComponents={setComponents}
-          wires={wires}
-          setWires={setWires}
-          selectedTool={selectedTool}
-          selectedComponentType={selectedComponentType}
-          onDropComponent={handleDropComponent} // Pass drop handler to Canvas
-          draggedComponentType={draggedComponentType} // Pass for visual feedback
-          subcircuits={subcircuits} // Pass subcircuits for rendering/terminal logic
-        />
-
-        {selectedItem && (
+        <div className="workspace">
+          <Canvas
+            components={components}
+            execute={execute}
+            wires={wires}
+            selectedTool={selectedTool}
+            selectedComponentType={selectedComponentType}
+            onDropComponent={handleDropComponent} // Pass drop handler to Canvas
+            draggedComponentType={draggedComponentType} // Pass for visual feedback
+            subcircuits={subcircuits} // Pass subcircuits for rendering/terminal logic
+            selection={selection}
+            setSelection={setSelection}
+            view={view}
+            setView={setView}
+            simulation={simulation}
+            errorComponentId={errorComponentId}
+            probes={liveProbes}
+            setProbes={setProbes}
+          />
+          <StatusBar
+            simulation={simulation}
+            errorComponentId={errorComponentId}
+            onSelectComponent={id => setSelection([id])}
+          />
+        </div>
+
+        {selectedTool === 'subcircuit_create' && (
+          <SubcircuitEditor
+            selectionCount={selection.length}
+            proposedPorts={proposedPorts}
+            onCreate={handleConfirmSubcircuit}
+            onCancel={handleCancelSubcircuit}
+          />
+        )}
+
+        {selectedTool !== 'subcircuit_create' && selectedItem && (
           <PropertiesPanel
             component={selectedItem}
-            onUpdate={(id, value) => {
-              setComponents(components.map(c =>
-                c.id === id ? { ...c, value } : c
-              ));
-            }}
+            onUpdate={(id, changes, session) => execute(updateComponent(id, changes, session))}
+          />
+        )}
+
+        {plotOpen && (
+          <PlotPanel
+            components={components}
+            wires={wires}
+            subcircuits={subcircuits}
+            probes={liveProbes}
+            settings={analysisSettings}
+            onSettingsChange={setAnalysisSettings}
+            onRemoveProbe={id => setProbes(prev => prev.filter(p => p.id !== id))}
+            onExportCsv={csv => downloadFile('waveforms.csv', csv, 'text/csv')}
           />
         )}
+
+        {toleranceOpen && (
+          <TolerancePanel components={components} wires={wires} subcircuits={subcircuits} probes={liveProbes} />
+        )}
       </div>
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+// Milliseconds without edits before the circuit is simulated again
+const SIMULATION_DELAY = 300;
+
+// Orientation shortcuts; Shift+R turns the other way
+const ORIENTATION_KEYS: Record<string, Orientation> = {
+  r: 'rotateClockwise',
+  h: 'mirrorHorizontal',
+  v: 'mirrorVertical',
+};
+
+// Offers text content to the user as a file download
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default App;
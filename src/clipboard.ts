@@ -0,0 +1,80 @@
+// src/clipboard.ts
+// Copy/paste of schematic fragments. A fragment is stored on the system clipboard as a project
+// file (see src/project.ts), so it can be pasted into another tab and is validated the same way.
+import { CircuitComponent, SubCircuit, WireEnd } from './types/types';
+import { CircuitDocument, Command } from './history';
+import { DEFAULT_VIEW, ProjectError, parseProject, serializeProject } from './project';
+import { isWireJoint, translateWire, wiresWithin } from './wires';
+
+export type Fragment = CircuitDocument;
+
+// Offset of pasted and duplicated parts, so they do not land exactly on the originals
+export const PASTE_OFFSET = 40;
+
+// The selected components, the wires running between them and every subcircuit definition
+// they need, including definitions nested inside those
+export function copyFragment(document: CircuitDocument, ids: string[]): Fragment {
+  const components = document.components.filter(c => ids.includes(c.id));
+  const wires = wiresWithin(ids, document.wires);
+
+  const needed = new Map<string, SubCircuit>();
+  const collect = (list: CircuitComponent[]) => list.forEach(c => {
+    if (c.type !== 'subcircuit' || !c.subcircuitId || needed.has(c.subcircuitId)) return;
+    const def = document.subcircuits.find(s => s.id === c.subcircuitId);
+    if (!def) return;
+    needed.set(def.id, def);
+    collect(def.internalComponents);
+  });
+  collect(components);
+
+  return { components, wires, subcircuits: Array.from(needed.values()) };
+}
+
+export function serializeFragment(fragment: Fragment): string {
+  return serializeProject({ ...fragment, probes: [], view: DEFAULT_VIEW });
+}
+
+// Null when the text is not a fragment, e.g. ordinary text copied from elsewhere
+export function parseFragment(text: string): Fragment | null {
+  try {
+    const { components, wires, subcircuits } = parseProject(text);
+    return { components, wires, subcircuits };
+  } catch (e) {
+    if (e instanceof ProjectError) return null;
+    throw e;
+  }
+}
+
+// Inserts a copy of the fragment with fresh component and wire ids, keeping its internal wiring.
+// Subcircuit definitions already in the library are reused, others are added. Returns the ids of
+// the new components so they can be selected.
+export function pasteFragment(fragment: Fragment, offset: number, label = 'Paste'): { command: Command; ids: string[] } {
+  const stamp = Date.now().toString();
+  const idMap = new Map(fragment.components.map((c, i) => [c.id, `${stamp}_${i}`]));
+  const components = fragment.components.map(c => ({ ...c, id: idMap.get(c.id)!, x: c.x + offset, y: c.y + offset }));
+  const wireIdMap = new Map(fragment.wires.map((w, i) => [w.id, `${stamp}_w${i}`]));
+  const renumber = (end: WireEnd): WireEnd => isWireJoint(end)
+    ? { ...end, wireId: wireIdMap.get(end.wireId)! }
+    : { ...end, componentId: idMap.get(end.componentId)! };
+  const wires = fragment.wires.map(w => translateWire(
+    { ...w, id: wireIdMap.get(w.id)!, from: renumber(w.from), to: renumber(w.to) },
+    offset,
+    offset
+  ));
+
+  return {
+    ids: components.map(c => c.id),
+    command: {
+      label,
+      apply: doc => {
+        if (components.length === 0) return doc;
+        const missing = fragment.subcircuits.filter(s => !doc.subcircuits.some(existing => existing.id === s.id));
+        return {
+          components: [...doc.components, ...components],
+          wires: [...doc.wires, ...wires],
+          subcircuits: [...doc.subcircuits, ...missing],
+        };
+      },
+    },
+  };
+}
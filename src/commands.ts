@@ -0,0 +1,133 @@
+// src/commands.ts
+// The edits a user can make to the schematic, as recordable commands (see src/history.ts).
+// Ids and timestamps are chosen when a command is created, so applying it is a pure function.
+import { CircuitComponent, Wire } from './types/types';
+import { Command } from './history';
+import { PortProposal, createSubcircuit } from './subcircuits';
+import { wiresAttachedTo, rejoinWires } from './wires';
+import { switchModelOf } from './simulation/devices';
+
+export function addComponent(component: CircuitComponent): Command {
+  return {
+    label: component.type === 'subcircuit' ? 'Place subcircuit' : `Add ${component.type}`,
+    apply: doc => ({ ...doc, components: [...doc.components, component] }),
+  };
+}
+
+// `gesture` identifies one drag, so all of its intermediate positions become a single step.
+// `wires` are moved copies of the wires running within the group, replacing the originals.
+export function moveComponents(positions: { id: string; x: number; y: number }[], gesture: string, wires: Wire[] = []): Command {
+  return {
+    label: positions.length === 1 ? 'Move' : `Move ${positions.length} components`,
+    coalesceKey: `move:${gesture}`,
+    apply: doc => {
+      const moved = doc.components.some(c => positions.some(p => p.id === c.id && (p.x !== c.x || p.y !== c.y)));
+      if (!moved) return doc;
+      const components = doc.components.map(c => {
+        const position = positions.find(p => p.id === c.id);
+        return position ? { ...c, x: position.x, y: position.y } : c;
+      });
+      const carried = doc.wires.map(w => wires.find(moved => moved.id === w.id) ?? w);
+      // Wires left behind that end on a moved or rerouted wire stay on it
+      return { ...doc, components, wires: rejoinWires(doc.wires, doc.components, carried, components, doc.subcircuits) };
+    },
+  };
+}
+
+export type Orientation = 'rotateClockwise' | 'rotateCounterClockwise' | 'mirrorHorizontal' | 'mirrorVertical';
+
+const ORIENTATION_LABELS: Record<Orientation, string> = {
+  rotateClockwise: 'Rotate',
+  rotateCounterClockwise: 'Rotate',
+  mirrorHorizontal: 'Mirror',
+  mirrorVertical: 'Mirror',
+};
+
+// Turns or flips each component in place (its top-left corner stays put). Mirroring happens
+// on screen, so it is folded into the stored mirror-then-rotate form: a horizontal flip negates
+// the rotation, a vertical flip is a horizontal flip plus a half turn.
+export function orientComponents(ids: string[], orientation: Orientation): Command {
+  const orient = (c: CircuitComponent): CircuitComponent => {
+    const rotation = c.rotation ?? 0;
+    switch (orientation) {
+      case 'rotateClockwise':
+        return { ...c, rotation: (rotation + 90) % 360 };
+      case 'rotateCounterClockwise':
+        return { ...c, rotation: (rotation + 270) % 360 };
+      case 'mirrorHorizontal':
+        return { ...c, rotation: (360 - rotation) % 360, mirrored: !c.mirrored };
+      case 'mirrorVertical':
+        return { ...c, rotation: (540 - rotation) % 360, mirrored: !c.mirrored };
+    }
+  };
+  return {
+    label: ORIENTATION_LABELS[orientation],
+    apply: doc => {
+      if (!doc.components.some(c => ids.includes(c.id))) return doc;
+      return { ...doc, components: doc.components.map(c => (ids.includes(c.id) ? orient(c) : c)) };
+    },
+  };
+}
+
+// Removes the components together with every wire attached to them, directly or through
+// other wires
+export function deleteComponents(ids: string[]): Command {
+  return {
+    label: ids.length === 1 ? 'Delete component' : `Delete ${ids.length} components`,
+    apply: doc => {
+      if (!doc.components.some(c => ids.includes(c.id))) return doc;
+      const removed = wiresAttachedTo(ids, doc.wires);
+      return {
+        ...doc,
+        components: doc.components.filter(c => !ids.includes(c.id)),
+        wires: doc.wires.filter(w => !removed.includes(w)),
+      };
+    },
+  };
+}
+
+export function addWire(wire: Wire): Command {
+  return {
+    label: 'Add wire',
+    apply: doc => ({ ...doc, wires: [...doc.wires, wire] }),
+  };
+}
+
+// Keystrokes in the same property fields of the same component coalesce into one step, as long
+// as they belong to one edit `session`: the properties panel starts a new one whenever focus
+// enters or leaves one of its fields
+export function updateComponent(id: string, changes: Partial<CircuitComponent>, session: number): Command {
+  return {
+    label: 'Edit properties',
+    coalesceKey: `edit:${session}:${id}:${Object.keys(changes).sort().join(',')}`,
+    apply: doc => ({ ...doc, components: doc.components.map(c => (c.id === id ? { ...c, ...changes } : c)) }),
+  };
+}
+
+// Flips a switch by hand; every flip is its own undo step
+export function toggleSwitch(id: string): Command {
+  return {
+    label: 'Toggle switch',
+    apply: doc => ({
+      ...doc,
+      components: doc.components.map(c => (c.id === id
+        ? { ...c, switchModel: { ...c.switchModel, closed: !switchModelOf(c).closed } }
+        : c)),
+    }),
+  };
+}
+
+export function createSubcircuitFromSelection(name: string, selectedIds: string[], ports: PortProposal[]): Command {
+  const stamp = Date.now().toString();
+  return {
+    label: 'Create subcircuit',
+    apply: doc => {
+      const created = createSubcircuit(name, selectedIds, ports, doc.components, doc.wires, doc.subcircuits, stamp);
+      return {
+        components: created.components,
+        wires: created.wires,
+        subcircuits: [...doc.subcircuits, created.subcircuit],
+      };
+    },
+  };
+}
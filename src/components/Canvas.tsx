@@ -1,38 +1,120 @@
 // src/components/Canvas.tsx
-import React, { useRef, useState, useCallback, useEffect } from 'react';
-import { CircuitComponent, Wire, ToolMode, ComponentType, SubCircuit } from '../types/types';
+import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
+import { CircuitComponent, Wire, WireEnd, Point, ToolMode, ComponentType, SubCircuit, ViewSettings, Probe } from '../types/types';
 
 import { GRID_SIZE, COMPONENT_SIZE } from '../constants';
+import {
+  TERMINAL_DEFINITIONS,
+  terminalsOf,
+  nearestTerminal,
+  componentSize,
+  drawingSize,
+  orientationTransform,
+  isNetSymbol,
+} from '../terminals';
+import { Command } from '../history';
+import { addComponent, moveComponents, addWire, orientComponents, toggleSwitch, Orientation } from '../commands';
+import { screenToWorld, viewTransform, zoomAt, fitView, ZOOM_STEP } from '../view';
+import {
+  isWireJoint,
+  endPosition,
+  orthogonalRoute,
+  wireRoute,
+  junctionPoints,
+  hitWire,
+  wiresWithin,
+  translateWire,
+} from '../wires';
+import { OperatingPoint } from '../simulation/simulator';
+import {
+  WirePiece,
+  DOT_SPACING,
+  bulbGlow,
+  flowSpeed,
+  voltageColor,
+  wireVoltage,
+  wirePieces,
+  componentReadout,
+  wireReadout,
+} from '../overlay';
+import { canProbeCurrent, probePosition } from '../probes';
+import { switchModelOf } from '../simulation/devices';
+import { traceColor } from '../plot';
+
 
 interface CanvasProps {
   components: CircuitComponent[]; // The items currently drawn
-  setComponents: React.Dispatch<React.SetStateAction<CircuitComponent[]>>;
   wires: Wire[];
-  setWires: React.Dispatch<React.SetStateAction<Wire[]>>;
+  execute: (command: Command) => void; // Every edit goes through the undo history
   selectedTool: ToolMode; // Weather you are selecting, adding or wiring componenets
   selectedComponentType: ComponentType;
   onDropComponent: (e: React.DragEvent) => void; // New prop for handling drops
   draggedComponentType: ComponentType | null; // For visual feedback during drag
   subcircuits: SubCircuit[]; // Pass subcircuits to resolve their definitions
-  isBulbYellow: boolean;
+  selection: string[]; // Selected component ids, also the parts of a new subcircuit
+  setSelection: React.Dispatch<React.SetStateAction<string[]>>;
+  view: ViewSettings; // Zoom and pan; everything inside the schematic is in world coordinates
+  setView: React.Dispatch<React.SetStateAction<ViewSettings>>;
+  simulation: OperatingPoint | null; // Latest operating point, drawn over the schematic
+  errorComponentId?: string; // Component the simulation error is about, highlighted in red
+  probes: Probe[]; // Drawn in the colour of their trace in the plot panel
+  setProbes: React.Dispatch<React.SetStateAction<Probe[]>>;
 }
 
 const Canvas: React.FC<CanvasProps> = ({
   components,
-  setComponents,
   wires,
-  setWires,
+  execute,
   selectedTool,
   selectedComponentType,
   onDropComponent, // Destructure new prop
   draggedComponentType, // Destructure new prop
   subcircuits, // Destructure new 
-  isBulbYellow,
+  selection,
+  setSelection,
+  view,
+  setView,
+  simulation,
+  errorComponentId,
+  probes,
+  setProbes,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [dragging, setDragging] = useState<string | null>(null);
-  const [wireStart, setWireStart] = useState<{ componentId: string; terminal: number } | null>(null);
-  const [currentWire, setCurrentWire] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
+  // Selected components being dragged together. Positions are relative to where each component
+  // started; `gesture` groups all moves of one drag into a single undo step.
+  const [dragging, setDragging] = useState<{
+    gesture: string;
+    startX: number; // Mouse position when the drag started
+    startY: number;
+    origins: { id: string; x: number; y: number }[];
+    wires: Wire[]; // Wires running within the group, moved along with it
+  } | null>(null);
+  // Wire being drawn: where it starts, the corners placed so far and the cursor, which
+  // closes the preview
+  const [wireDraft, setWireDraft] = useState<{ from: WireEnd; waypoints: Point[]; cursor: Point } | null>(null);
+  // Rubber-band rectangle while picking components for a subcircuit
+  // With `additive` (shift held) the enclosed components are added to the selection instead of replacing it
+  const [selectionBox, setSelectionBox] = useState<{ x1: number; y1: number; x2: number; y2: number; additive: boolean } | null>(null);
+  // Open context menu, in page coordinates
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; ids: string[] } | null>(null);
+  // Middle-button or space+drag pan in progress, with the mouse and pan where it started
+  const [panning, setPanning] = useState<{ startX: number; startY: number; panX: number; panY: number } | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  // Simulated values of the part or wire under the cursor, at the cursor in canvas pixels
+  const [hover, setHover] = useState<{ x: number; y: number; lines: string[] } | null>(null);
+
+  // Results only make sense for a circuit that solved
+  const results = simulation && !simulation.error ? simulation : null;
+  const pieces = useMemo(
+    () => (results ? wirePieces(wires, components, subcircuits, results) : []),
+    [results, wires, components, subcircuits]
+  );
+
+  // Mouse position in world coordinates, which is what hit-testing and snapping work in
+  const toWorld = useCallback((e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return screenToWorld(view, e.clientX - rect.left, e.clientY - rect.top);
+  }, [view]);
 
   // Helper function to snap coordinates to the grid
   const snapToGrid = (coord: number) => Math.round(coord / GRID_SIZE) * GRID_SIZE;
@@ -54,9 +136,9 @@ const Canvas: React.FC<CanvasProps> = ({
 
     // This part is now mostly handled by drag and drop,
     // but we can keep it for direct click placement if desired.
-    const rect = svgRef.current.getBoundingClientRect();
-    const x = snapToGrid(e.clientX - rect.left - COMPONENT_SIZE / 2);
-    const y = snapToGrid(e.clientY - rect.top - COMPONENT_SIZE / 2);
+    const point = toWorld(e);
+    const x = snapToGrid(point.x - COMPONENT_SIZE / 2);
+    const y = snapToGrid(point.y - COMPONENT_SIZE / 2);
 
     const newComponent: CircuitComponent = {
       id: Date.now().toString(),
@@ -72,58 +154,140 @@ const Canvas: React.FC<CanvasProps> = ({
       alert("Please drag and drop subcircuits from the toolbar.");
       return;
     }
+    if (selectedComponentType === 'label' || selectedComponentType === 'rail') {
+      newComponent.netName = selectedComponentType === 'rail' ? 'VCC' : 'NET';
+    }
 
-    setComponents([...components, newComponent]);
+    execute(addComponent(newComponent));
   };
 
   const handleComponentMouseDown = (e: React.MouseEvent, component: CircuitComponent) => {
     e.stopPropagation(); // Prevent canvas click
+    if (e.button !== 0) return; // Right button opens the context menu instead
     if (!svgRef.current) return; // Ensure svgRef is available
 
-    const svgRect = svgRef.current.getBoundingClientRect();
+    const point = toWorld(e);
 
     if (selectedTool === 'wire') {
-      // Pass e.nativeEvent to getNearestTerminal
-      const terminal = getNearestTerminal(e.nativeEvent, component, svgRect, subcircuits);
-      setWireStart({ componentId: component.id, terminal });
-      setCurrentWire({
-        x1: component.x + getTerminalGlobalX(component, terminal, subcircuits), // Get exact terminal global X
-        y1: component.y + getTerminalGlobalY(component, terminal, subcircuits), // Get exact terminal global Y
-        x2: e.clientX - svgRect.left,
-        y2: e.clientY - svgRect.top,
-      });
+      if (wireDraft) return; // A wire in progress is finished on mouse up
+      const terminal = nearestTerminal(component, point.x - component.x, point.y - component.y, subcircuits);
+      if (terminal === null) return; // Nothing to connect to
+      setWireDraft({ from: { componentId: component.id, terminal }, waypoints: [], cursor: point });
+    } else if (selectedTool === 'probe') {
+      // Clicking a component puts a current probe on it, or takes it off again
+      if (!canProbeCurrent(component)) return;
+      const existing = probes.find(p => p.kind === 'current' && p.componentId === component.id);
+      setProbes(prev => existing
+        ? prev.filter(p => p !== existing)
+        : [...prev, { id: Date.now().toString(), kind: 'current', componentId: component.id }]);
+    } else if (selectedTool === 'subcircuit_create') {
+      // Clicking toggles a component in or out of the subcircuit selection
+      setSelection(prev => prev.includes(component.id) ? prev.filter(id => id !== component.id) : [...prev, component.id]);
     } else if (selectedTool === 'select') {
-      setDragging(component.id);
-      // set selectedItem in App.tsx (you'd need to pass setSelectedItem as a prop)
-      // For now, let's assume selectedItem is handled by App based on click
+      // Click selects, shift-click toggles; pressing on an already selected part keeps the
+      // selection so the whole group can be dragged
+      let nextSelection = selection;
+      if (e.shiftKey) {
+        nextSelection = selection.includes(component.id)
+          ? selection.filter(id => id !== component.id)
+          : [...selection, component.id];
+      } else if (!selection.includes(component.id)) {
+        nextSelection = [component.id];
+      }
+      setSelection(nextSelection);
+      if (!nextSelection.includes(component.id)) return;
+
+      setDragging({
+        gesture: `${component.id}:${Date.now()}`,
+        startX: point.x,
+        startY: point.y,
+        origins: components.filter(c => nextSelection.includes(c.id)).map(c => ({ id: c.id, x: c.x, y: c.y })),
+        wires: wiresWithin(nextSelection, wires),
+      });
+    }
+  };
+
+  // Double-clicking a switch flips it; the live simulation follows straight away
+  const handleComponentDoubleClick = (e: React.MouseEvent, component: CircuitComponent) => {
+    if (selectedTool !== 'select' || (component.type !== 'spst' && component.type !== 'spdt')) return;
+    e.stopPropagation();
+    execute(toggleSwitch(component.id));
+  };
+
+  // Right-clicking a component offers orientation commands for it, or for the whole
+  // selection when it is part of one
+  const handleComponentContextMenu = (e: React.MouseEvent, component: CircuitComponent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const ids = selection.includes(component.id) ? selection : [component.id];
+    setSelection(ids);
+    setContextMenu({ x: e.clientX, y: e.clientY, ids });
+  };
+
+  // The middle button, or the left one while space is held, pans in any tool. This runs in the
+  // capture phase so components underneath never see the press.
+  const handlePanMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 1 && !(e.button === 0 && spaceHeld)) return;
+    e.preventDefault(); // No autoscroll on middle click
+    e.stopPropagation();
+    setPanning({ startX: e.clientX, startY: e.clientY, panX: view.panX, panY: view.panY });
+  };
+
+  // Pressing on empty canvas starts a rubber-band selection; with the wire tool, pressing on
+  // a wire starts a new wire joined to it
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !svgRef.current) return;
+    const { x, y } = toWorld(e);
+    if (selectedTool === 'wire') {
+      const joint = wireDraft ? null : hitWire(x, y, wires, components, subcircuits, WIRE_HIT_TOLERANCE / view.zoom);
+      if (joint) setWireDraft({ from: joint, waypoints: [], cursor: { x, y } });
+      return;
     }
+    if (selectedTool === 'probe') {
+      const at = hitWire(x, y, wires, components, subcircuits, WIRE_HIT_TOLERANCE / view.zoom);
+      if (at) setProbes(prev => [...prev, { id: Date.now().toString(), kind: 'voltage', at }]);
+      return;
+    }
+    if (selectedTool !== 'select' && selectedTool !== 'subcircuit_create') return;
+    // While creating a subcircuit the box always adds, so parts can be collected in several sweeps
+    setSelectionBox({ x1: x, y1: y, x2: x, y2: y, additive: e.shiftKey || selectedTool === 'subcircuit_create' });
   };
 
   const handleCanvasMouseMove = useCallback(
     (e: MouseEvent) => { // Changed to MouseEvent
       if (!svgRef.current) return; // Ensure svgRef is available
 
-      const rect = svgRef.current.getBoundingClientRect();
+      if (panning) {
+        setView(v => ({ ...v, panX: panning.panX + e.clientX - panning.startX, panY: panning.panY + e.clientY - panning.startY }));
+        return;
+      }
+
+      const point = toWorld(e);
 
       if (dragging) {
-        const x = snapToGrid(e.clientX - rect.left - COMPONENT_SIZE / 2);
-        const y = snapToGrid(e.clientY - rect.top - COMPONENT_SIZE / 2);
-        setComponents((prev) =>
-          prev.map((c) => (c.id === dragging ? { ...c, x, y } : c))
-        );
-      } else if (wireStart) {
-        const startComponent = components.find((c) => c.id === wireStart.componentId);
-        if (!startComponent) return;
-
-        setCurrentWire({
-          x1: startComponent.x + getTerminalGlobalX(startComponent, wireStart.terminal, subcircuits),
-          y1: startComponent.y + getTerminalGlobalY(startComponent, wireStart.terminal, subcircuits),
-          x2: e.clientX - rect.left,
-          y2: e.clientY - rect.top,
-        });
+        // The whole group moves by the same grid-snapped offset
+        const dx = snapToGrid(point.x - dragging.startX);
+        const dy = snapToGrid(point.y - dragging.startY);
+        execute(moveComponents(
+          dragging.origins.map(o => ({ id: o.id, x: o.x + dx, y: o.y + dy })),
+          dragging.gesture,
+          dragging.wires.map(w => translateWire(w, dx, dy))
+        ));
+      } else if (selectionBox) {
+        setSelectionBox({ ...selectionBox, x2: point.x, y2: point.y });
+      } else if (wireDraft) {
+        setWireDraft({ ...wireDraft, cursor: point });
+      } else if (results) {
+        const rect = svgRef.current.getBoundingClientRect();
+        const component = components.find(c => isPointInsideComponent(point.x, point.y, c, subcircuits));
+        const joint = component ? null : hitWire(point.x, point.y, wires, components, subcircuits, WIRE_HIT_TOLERANCE / view.zoom);
+        const lines = component
+          ? componentReadout(component, results, subcircuits)
+          : joint ? wireReadout(joint.wireId, point, pieces, results) : [];
+        setHover(lines.length > 0 ? { x: e.clientX - rect.left, y: e.clientY - rect.top, lines } : null);
       }
     },
-    [dragging, setComponents, wireStart, components, subcircuits] // Added subcircuits to dependencies
+    [panning, setView, toWorld, dragging, execute, selectionBox, wireDraft, results, components, subcircuits, wires, view.zoom, pieces]
   );
 
   const handleCanvasMouseUp = useCallback(
@@ -131,35 +295,130 @@ const Canvas: React.FC<CanvasProps> = ({
       e.stopPropagation();
       if (!svgRef.current) return; // Ensure svgRef is available
 
-      const svgRect = svgRef.current.getBoundingClientRect();
+      const point = toWorld(e);
 
-      if (dragging) {
+      if (panning) {
+        setPanning(null);
+      } else if (dragging) {
         setDragging(null);
-      } else if (wireStart) {
+      } else if (selectionBox) {
+        // Components lying entirely inside the box are selected; an empty click clears the selection
+        const left = Math.min(selectionBox.x1, selectionBox.x2);
+        const right = Math.max(selectionBox.x1, selectionBox.x2);
+        const top = Math.min(selectionBox.y1, selectionBox.y2);
+        const bottom = Math.max(selectionBox.y1, selectionBox.y2);
+        const enclosed = components.filter(c => {
+          const { width, height } = componentSize(c, subcircuits);
+          return c.x >= left && c.x + width <= right && c.y >= top && c.y + height <= bottom;
+        });
+        const enclosedIds = enclosed.map(c => c.id);
+        setSelection(prev => selectionBox.additive ? [...prev, ...enclosedIds.filter(id => !prev.includes(id))] : enclosedIds);
+        setSelectionBox(null);
+      } else if (wireDraft) {
+        // Releasing on a pin or on another wire finishes the wire there; releasing on empty
+        // canvas places a corner and keeps drawing
+        const { from, waypoints } = wireDraft;
         const endComponent = components.find((c) =>
           isPointInsideComponent(
-            e.clientX - svgRect.left,
-            e.clientY - svgRect.top,
+            point.x,
+            point.y,
             c,
             subcircuits // Pass subcircuits to check proper bounds
           )
         );
-        if (endComponent && endComponent.id !== wireStart.componentId) { // Prevent self-wiring
-          const terminal = getNearestTerminal(e, endComponent, svgRect, subcircuits);
-          const newWire: Wire = {
-            id: Date.now().toString(),
-            from: { componentId: wireStart.componentId, terminal: wireStart.terminal },
-            to: { componentId: endComponent.id, terminal },
-          };
-          setWires((prev) => [...prev, newWire]);
+        let to: WireEnd | null = null;
+        if (endComponent) {
+          // Releasing on the part the wire started from does not finish it (prevents self-wiring)
+          if (!isWireJoint(from) && endComponent.id === from.componentId && waypoints.length === 0) return;
+          const terminal = nearestTerminal(endComponent, point.x - endComponent.x, point.y - endComponent.y, subcircuits);
+          if (terminal === null) return;
+          to = { componentId: endComponent.id, terminal };
+        } else {
+          const joint = hitWire(point.x, point.y, wires, components, subcircuits, WIRE_HIT_TOLERANCE / view.zoom);
+          const startWire = isWireJoint(from) ? from.wireId : null;
+          if (joint && !(joint.wireId === startWire && waypoints.length === 0)) to = joint;
+        }
+
+        if (to) {
+          const newWire: Wire = { id: Date.now().toString(), from, to, ...(waypoints.length > 0 && { waypoints }) };
+          execute(addWire(newWire));
+          setWireDraft(null);
+        } else if (!endComponent) {
+          const corner = { x: snapToGrid(point.x), y: snapToGrid(point.y) };
+          const previous = waypoints[waypoints.length - 1] ?? endPosition(from, components, subcircuits);
+          if (previous && previous.x === corner.x && previous.y === corner.y) return;
+          setWireDraft({ ...wireDraft, waypoints: [...waypoints, corner] });
         }
-        setWireStart(null);
-        setCurrentWire(null);
       }
     },
-    [dragging, wireStart, wires, setWires, components, subcircuits] // Added subcircuits to dependencies
+    [panning, toWorld, dragging, selectionBox, setSelection, wireDraft, wires, view.zoom, execute, components, subcircuits] // Added subcircuits to dependencies
   );
 
+  // Any press outside the context menu closes it
+  useEffect(() => {
+    if (!contextMenu) return;
+    const close = () => setContextMenu(null);
+    window.addEventListener('mousedown', close);
+    return () => window.removeEventListener('mousedown', close);
+  }, [contextMenu]);
+
+  // Zooms the view around a point on screen, by default the middle of the canvas
+  const zoomBy = useCallback((factor: number, x?: number, y?: number) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    setView(v => zoomAt(v, factor, x ?? svg.clientWidth / 2, y ?? svg.clientHeight / 2));
+  }, [setView]);
+
+  const zoomToFit = useCallback(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    setView(fitView(components, subcircuits, svg.clientWidth, svg.clientHeight));
+  }, [components, subcircuits, setView]);
+
+  // The wheel zooms around the cursor. Registered natively because React's wheel listener is
+  // passive and could not stop the page from scrolling.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [zoomBy]);
+
+  // A half-drawn wire does not survive switching tools
+  useEffect(() => {
+    setWireDraft(null);
+  }, [selectedTool]);
+
+  // Space arms panning, F zooms to fit and Escape cancels a wire, except while typing in a field
+  useEffect(() => {
+    const editingText = (e: KeyboardEvent) => ['INPUT', 'TEXTAREA', 'SELECT'].includes((e.target as HTMLElement).tagName);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (editingText(e) || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === ' ') {
+        e.preventDefault(); // Keep the page from scrolling
+        setSpaceHeld(true);
+      } else if (e.key === 'f' || e.key === 'F') {
+        zoomToFit();
+      } else if (e.key === 'Escape') {
+        setWireDraft(null); // Abandons the wire being drawn
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') setSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [zoomToFit]);
+
   useEffect(() => {
     if (svgRef.current) {
       svgRef.current.addEventListener('mousemove', handleCanvasMouseMove);
@@ -180,275 +439,495 @@ const Canvas: React.FC<CanvasProps> = ({
       capacitor: 0.000001,
       inductor: 0.001,
       voltage: 5,
-      diode: 0.7,
+      current: 0.001,
+      vcvs: 10, // Controlled sources hold their gain
+      vccs: 0.001,
+      ccvs: 1000,
+      cccs: 10,
+      diode: 0, // Diodes are described by diodeModel
       transistor: 0,
       bulb: 0,
+      spst: 0, // Switches are described by switchModel
+      spdt: 0,
+      ground: 0, // Net symbols carry a name, not a value
+      label: 0,
+      rail: 0,
       subcircuit: 0,
     };
     return defaults[type];
   };
 
-  const getTerminalGlobalX = (component: CircuitComponent, terminalId: number, subcircuits: SubCircuit[]): number => {
-    if (component.type === 'subcircuit' && component.subcircuitId) {
-      const subcircuitDef = subcircuits.find(s => s.id === component.subcircuitId);
-      if (subcircuitDef) {
-        // Find the terminal definition by its internal ID (which we are passing as `terminalId`)
-        const terminal = [...subcircuitDef.inputs, ...subcircuitDef.outputs].find((t, index) => index === terminalId);
-        if (terminal) {
-          return terminal.x; // Terminal X is relative to subcircuit's top-left
-        }
-      }
-    }
-    // Default for basic components (center)
-    return COMPONENT_SIZE / 2;
-  };
-
-  const getTerminalGlobalY = (component: CircuitComponent, terminalId: number, subcircuits: SubCircuit[]): number => {
-    if (component.type === 'subcircuit' && component.subcircuitId) {
-      const subcircuitDef = subcircuits.find(s => s.id === component.subcircuitId);
-      if (subcircuitDef) {
-        const terminal = [...subcircuitDef.inputs, ...subcircuitDef.outputs].find((t, index) => index === terminalId);
-        if (terminal) {
-          return terminal.y; // Terminal Y is relative to subcircuit's top-left
-        }
-      }
-    }
-    // Default for basic components (center)
-    return COMPONENT_SIZE / 2;
-  };
-
   const renderComponent = (component: CircuitComponent) => {
-    // Determine actual component size for rendering if it's a subcircuit
-    let actualWidth = COMPONENT_SIZE;
-    let actualHeight = COMPONENT_SIZE;
-    let subcircuitTerminals: { x: number; y: number; id: string }[] = [];
-
-    if (component.type === 'subcircuit' && component.subcircuitId) {
-      const subcircuitDef = subcircuits.find(s => s.id === component.subcircuitId);
-      if (subcircuitDef) {
-        actualWidth = subcircuitDef.width;
-        actualHeight = subcircuitDef.height;
-        // Collect terminal positions relative to subcircuit's origin
-        subcircuitTerminals = [
-          ...subcircuitDef.inputs.map(t => ({ x: t.x, y: t.y, id: t.id })),
-          ...subcircuitDef.outputs.map(t => ({ x: t.x, y: t.y, id: t.id }))
-        ];
-      }
-    }
+    // Symbols are drawn unrotated in their own box; the inner group applies the orientation
+    const { width: actualWidth, height: actualHeight } = drawingSize(component, subcircuits);
+    const boundingBox = componentSize(component, subcircuits);
+    // Bulbs light up with the power they dissipate
+    const glow = component.type === 'bulb' && results ? bulbGlow(component, results) : null;
 
     return (
       <g
         key={component.id}
         transform={`translate(${component.x}, ${component.y})`}
         onMouseDown={(e) => handleComponentMouseDown(e, component)}
+        onContextMenu={(e) => handleComponentContextMenu(e, component)}
+        onDoubleClick={(e) => handleComponentDoubleClick(e, component)}
       >
-        {/* Render unique shapes based on component type */}
-        {component.type === 'resistor' && (
-          <>
-            <path
-              d="M0,10 h10 l5,-10 l10,20 l10,-20 l5,10 h10"
-              stroke="black"
-              strokeWidth="2"
-              fill="none"
-              transform={`scale(${COMPONENT_SIZE / 40})`} // Scale path to fit COMPONENT_SIZE
-            />
-            <text
-              x={COMPONENT_SIZE / 2}
-              y={COMPONENT_SIZE / 2 + 5}
-              textAnchor="middle"
-              fontSize="10"
-              fill="black"
-            >
-              {component.value}Ω
-            </text>
-          </>
-        )}
-        {component.type === 'voltage' && (
-          <>
-            <circle cx={COMPONENT_SIZE / 2} cy={COMPONENT_SIZE / 2} r={COMPONENT_SIZE / 2 - 5} stroke="black" strokeWidth="2" fill="white" />
-            <line x1={COMPONENT_SIZE / 2} y1={10} x2={COMPONENT_SIZE / 2} y2={20} stroke="black" strokeWidth="2" />
-            <line x1={COMPONENT_SIZE / 2} y1={COMPONENT_SIZE - 20} x2={COMPONENT_SIZE / 2} y2={COMPONENT_SIZE - 10} stroke="black" strokeWidth="2" />
-            <text
-              x={COMPONENT_SIZE / 2}
-              y={COMPONENT_SIZE / 2 + 5}
-              textAnchor="middle"
-              fontSize="10"
-              fill="black"
-            >
-              {component.value}V
-            </text>
-          </>
-        )}
-        {component.type === 'capacitor' && (
-          <>
-            <line x1={10} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE / 2 - 5} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
-            <line x1={COMPONENT_SIZE / 2 + 5} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE - 10} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
-            <line x1={COMPONENT_SIZE / 2 - 5} y1={10} x2={COMPONENT_SIZE / 2 - 5} y2={COMPONENT_SIZE - 10} stroke="black" strokeWidth="2" />
-            <line x1={COMPONENT_SIZE / 2 + 5} y1={10} x2={COMPONENT_SIZE / 2 + 5} y2={COMPONENT_SIZE - 10} stroke="black" strokeWidth="2" />
-            <text
-              x={COMPONENT_SIZE / 2}
-              y={COMPONENT_SIZE / 2 + 5}
-              textAnchor="middle"
-              fontSize="10"
-              fill="black"
-            >
-              {component.value}F
-            </text>
-          </>
-        )}
-        {component.type === 'inductor' && (
-          <>
-            <path
-              d={`M5,${COMPONENT_SIZE / 2} C15,${COMPONENT_SIZE / 2 - 15} 25,${COMPONENT_SIZE / 2 + 15} ${COMPONENT_SIZE / 2},${COMPONENT_SIZE / 2} C${COMPONENT_SIZE / 2 + 10},${COMPONENT_SIZE / 2 - 15} ${COMPONENT_SIZE - 15},${COMPONENT_SIZE / 2 + 15} ${COMPONENT_SIZE - 5},${COMPONENT_SIZE / 2}`}
-              stroke="black"
-              strokeWidth="2"
-              fill={isBulbYellow ? 'yellow' : 'black'}
-            />
-            <text
-              x={COMPONENT_SIZE / 2}
-              y={COMPONENT_SIZE / 2 + 5}
-              textAnchor="middle"
-              fontSize="10"
-              fill="black"
-            >
-              {component.value}H
-            </text>
-          </>
-        )}
-        {component.type === 'diode' && (
-          <>
-            <line x1={10} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE / 2 - 5} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
-            <path d={`M${COMPONENT_SIZE / 2 - 5},10 L${COMPONENT_SIZE / 2 + 15},${COMPONENT_SIZE / 2} L${COMPONENT_SIZE / 2 - 5},${COMPONENT_SIZE - 10} Z`} fill="black" stroke="black" strokeWidth="2" />
-            <line x1={COMPONENT_SIZE / 2 + 15} y1={10} x2={COMPONENT_SIZE / 2 + 15} y2={COMPONENT_SIZE - 10} stroke="black" strokeWidth="2" />
-            <line x1={COMPONENT_SIZE / 2 + 15} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE - 10} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
-          </>
-        )}
-        {component.type === 'transistor' && (
-          <>
-            {/* Simple NPN transistor symbol */}
-            <line x1={COMPONENT_SIZE / 2} y1={10} x2={COMPONENT_SIZE / 2} y2={COMPONENT_SIZE - 10} stroke="black" strokeWidth="2" /> {/* Collector-Emitter line */}
-            <line x1={COMPONENT_SIZE / 2 - 15} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE / 2 + 10} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" /> {/* Base line */}
-            <path d={`M${COMPONENT_SIZE / 2},${COMPONENT_SIZE / 2 + 10} L${COMPONENT_SIZE / 2 + 10},${COMPONENT_SIZE / 2 + 20}`} stroke="black" strokeWidth="2" fill="none" /> {/* Emitter diagonal */}
-            <path d={`M${COMPONENT_SIZE / 2 + 10},${COMPONENT_SIZE / 2 + 20} L${COMPONENT_SIZE / 2 + 5},${COMPONENT_SIZE / 2 + 15}`} stroke="black" strokeWidth="2" markerEnd="url(#arrowhead)" /> {/* Emitter arrow */}
-            <defs>
-              <marker id="arrowhead" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto">
-                <polygon points="0 0, 10 3.5, 0 7" fill="black" />
-              </marker>
-            </defs>
-          </>
-        )}
-        {component.type === 'bulb' && (
-          <>
-            <circle cx={COMPONENT_SIZE / 2} cy={COMPONENT_SIZE / 2} r={COMPONENT_SIZE / 2 - 5} stroke="black" strokeWidth="2" fill={isBulbYellow ? 'yellow' : 'none'} />
-            <line x1={COMPONENT_SIZE / 2 - 10} y1={COMPONENT_SIZE / 2 - 10} x2={COMPONENT_SIZE / 2 + 10} y2={COMPONENT_SIZE / 2 + 10} stroke="black" strokeWidth="2" />
-            <line x1={COMPONENT_SIZE / 2 + 10} y1={COMPONENT_SIZE / 2 - 10} x2={COMPONENT_SIZE / 2 - 10} y2={COMPONENT_SIZE / 2 + 10} stroke="black" strokeWidth="2" />
-          </>
-        )}
-        {component.type === 'subcircuit' && (
-          <>
-            <rect x={0} y={0} width={actualWidth} height={actualHeight} fill="lightblue" stroke="black" strokeWidth="2" rx="5" ry="5" />
-            <text x={actualWidth / 2} y={actualHeight / 2} textAnchor="middle" fontSize="12" fill="black">
-              {subcircuits.find(s => s.id === component.subcircuitId)?.name || 'Custom'}
-            </text>
-            {/* Render input/output terminals for subcircuits */}
-            {subcircuitTerminals.map((term, index) => (
+        <g transform={orientationTransform(component, subcircuits)}>
+          {/* Render unique shapes based on component type */}
+          {component.type === 'resistor' && (
+            <>
+              <path
+                d="M0,20 h10 l2.5,-8 l5,16 l5,-16 l5,16 l2.5,-8 h10"
+                stroke="black"
+                strokeWidth="2"
+                fill="none"
+                transform={`scale(${COMPONENT_SIZE / 40})`} // Scale path to fit COMPONENT_SIZE
+              />
+              <text
+                x={COMPONENT_SIZE / 2}
+                y={COMPONENT_SIZE / 2 + 5}
+                textAnchor="middle"
+                fontSize="10"
+                fill="black"
+              >
+                {component.value}Ω
+              </text>
+            </>
+          )}
+          {component.type === 'voltage' && (
+            <>
+              <line x1={COMPONENT_SIZE / 2} y1={0} x2={COMPONENT_SIZE / 2} y2={5} stroke="black" strokeWidth="2" /> {/* + lead */}
+              <line x1={COMPONENT_SIZE / 2} y1={COMPONENT_SIZE - 5} x2={COMPONENT_SIZE / 2} y2={COMPONENT_SIZE} stroke="black" strokeWidth="2" /> {/* - lead */}
+              <circle cx={COMPONENT_SIZE / 2} cy={COMPONENT_SIZE / 2} r={COMPONENT_SIZE / 2 - 5} stroke="black" strokeWidth="2" fill="white" />
+              <text x={COMPONENT_SIZE / 2} y={14} textAnchor="middle" fontSize="10" fill="black">+</text>
+              <text
+                x={COMPONENT_SIZE / 2}
+                y={COMPONENT_SIZE / 2 + 5}
+                textAnchor="middle"
+                fontSize="10"
+                fill="black"
+              >
+                {component.value}V
+              </text>
+            </>
+          )}
+          {component.type === 'current' && (
+            <>
+              {/* The arrow shows the current flowing through the source from + to − */}
+              <line x1={COMPONENT_SIZE / 2} y1={0} x2={COMPONENT_SIZE / 2} y2={5} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2} y1={COMPONENT_SIZE - 5} x2={COMPONENT_SIZE / 2} y2={COMPONENT_SIZE} stroke="black" strokeWidth="2" />
+              <circle cx={COMPONENT_SIZE / 2} cy={COMPONENT_SIZE / 2} r={COMPONENT_SIZE / 2 - 5} stroke="black" strokeWidth="2" fill="white" />
+              <line x1={COMPONENT_SIZE / 2} y1={11} x2={COMPONENT_SIZE / 2} y2={COMPONENT_SIZE - 14} stroke="black" strokeWidth="2" />
+              <polygon points={`${COMPONENT_SIZE / 2 - 4},${COMPONENT_SIZE - 15} ${COMPONENT_SIZE / 2 + 4},${COMPONENT_SIZE - 15} ${COMPONENT_SIZE / 2},${COMPONENT_SIZE - 9}`} fill="black" />
+              <text x={COMPONENT_SIZE - 2} y={COMPONENT_SIZE / 2 + 4} fontSize="10" fill="black">
+                {component.value}A
+              </text>
+            </>
+          )}
+          {(component.type === 'vcvs' || component.type === 'vccs' || component.type === 'ccvs' || component.type === 'cccs') && (
+            <>
+              {/* Diamond output between the + and − pins, control pins on the left */}
+              <line x1={OUTPUT_X} y1={0} x2={OUTPUT_X} y2={8} stroke="black" strokeWidth="2" />
+              <line x1={OUTPUT_X} y1={COMPONENT_SIZE - 8} x2={OUTPUT_X} y2={COMPONENT_SIZE} stroke="black" strokeWidth="2" />
+              <path
+                d={`M${OUTPUT_X},8 L${OUTPUT_X + 8},${COMPONENT_SIZE / 2} L${OUTPUT_X},${COMPONENT_SIZE - 8} L${OUTPUT_X - 8},${COMPONENT_SIZE / 2} Z`}
+                stroke="black"
+                strokeWidth="2"
+                fill="white"
+              />
+              {component.type === 'vcvs' || component.type === 'ccvs' ? (
+                <>
+                  <text x={OUTPUT_X} y={18} textAnchor="middle" fontSize="8" fill="black">+</text>
+                  <text x={OUTPUT_X} y={28} textAnchor="middle" fontSize="8" fill="black">−</text>
+                </>
+              ) : (
+                <>
+                  <line x1={OUTPUT_X} y1={13} x2={OUTPUT_X} y2={COMPONENT_SIZE - 16} stroke="black" strokeWidth="1.5" />
+                  <polygon points={`${OUTPUT_X - 3},${COMPONENT_SIZE - 17} ${OUTPUT_X + 3},${COMPONENT_SIZE - 17} ${OUTPUT_X},${COMPONENT_SIZE - 12}`} fill="black" />
+                </>
+              )}
+              {component.type === 'vcvs' || component.type === 'vccs' ? (
+                <>
+                  {/* Open control pins: only the voltage across them matters */}
+                  <line x1={0} y1={COMPONENT_SIZE / 4} x2={6} y2={COMPONENT_SIZE / 4} stroke="black" strokeWidth="2" />
+                  <line x1={0} y1={(COMPONENT_SIZE * 3) / 4} x2={6} y2={(COMPONENT_SIZE * 3) / 4} stroke="black" strokeWidth="2" />
+                  <text x={8} y={COMPONENT_SIZE / 4 + 3} fontSize="8" fill="black">+</text>
+                  <text x={8} y={(COMPONENT_SIZE * 3) / 4 + 3} fontSize="8" fill="black">−</text>
+                </>
+              ) : (
+                <>
+                  {/* Shorted control pins, with the sensed current flowing from C+ to C− */}
+                  <path
+                    d={`M0,${COMPONENT_SIZE / 4} H6 V${(COMPONENT_SIZE * 3) / 4} H0`}
+                    stroke="black"
+                    strokeWidth="2"
+                    fill="none"
+                  />
+                  <polygon points={`3,${COMPONENT_SIZE / 2 - 2} 9,${COMPONENT_SIZE / 2 - 2} 6,${COMPONENT_SIZE / 2 + 3}`} fill="black" />
+                </>
+              )}
+              <text x={10} y={COMPONENT_SIZE / 2 + 12} fontSize="8" fill="black">
+                ×{component.value}
+              </text>
+            </>
+          )}
+          {component.type === 'capacitor' && (
+            <>
+              <line x1={0} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE / 2 - 5} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 + 5} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 - 5} y1={10} x2={COMPONENT_SIZE / 2 - 5} y2={COMPONENT_SIZE - 10} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 + 5} y1={10} x2={COMPONENT_SIZE / 2 + 5} y2={COMPONENT_SIZE - 10} stroke="black" strokeWidth="2" />
+              <text
+                x={COMPONENT_SIZE / 2}
+                y={COMPONENT_SIZE / 2 + 5}
+                textAnchor="middle"
+                fontSize="10"
+                fill="black"
+              >
+                {component.value}F
+              </text>
+            </>
+          )}
+          {component.type === 'inductor' && (
+            <>
+              <path
+                d={`M0,${COMPONENT_SIZE / 2} H5 C15,${COMPONENT_SIZE / 2 - 15} 25,${COMPONENT_SIZE / 2 + 15} ${COMPONENT_SIZE / 2},${COMPONENT_SIZE / 2} C${COMPONENT_SIZE / 2 + 10},${COMPONENT_SIZE / 2 - 15} ${COMPONENT_SIZE - 15},${COMPONENT_SIZE / 2 + 15} ${COMPONENT_SIZE - 5},${COMPONENT_SIZE / 2} H${COMPONENT_SIZE}`}
+                stroke="black"
+                strokeWidth="2"
+                fill="none"
+              />
+              <text
+                x={COMPONENT_SIZE / 2}
+                y={COMPONENT_SIZE / 2 + 5}
+                textAnchor="middle"
+                fontSize="10"
+                fill="black"
+              >
+                {component.value}H
+              </text>
+            </>
+          )}
+          {component.type === 'diode' && (
+            <>
+              <line x1={0} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE / 2 - 5} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <path d={`M${COMPONENT_SIZE / 2 - 5},10 L${COMPONENT_SIZE / 2 + 15},${COMPONENT_SIZE / 2} L${COMPONENT_SIZE / 2 - 5},${COMPONENT_SIZE - 10} Z`} fill="black" stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 + 15} y1={10} x2={COMPONENT_SIZE / 2 + 15} y2={COMPONENT_SIZE - 10} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 + 15} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+            </>
+          )}
+          {component.type === 'transistor' && (
+            <>
+              {/* BJT symbol with leads ending on the C/B/E pins; the emitter arrow points out for NPN, in for PNP */}
+              <line x1={0} y1={COMPONENT_SIZE / 2} x2={14} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" /> {/* Base lead */}
+              <line x1={14} y1={8} x2={14} y2={COMPONENT_SIZE - 8} stroke="black" strokeWidth="2" /> {/* Base bar */}
+              <path d={`M14,14 L${TERMINAL_DEFINITIONS.transistor[0].x},5 L${TERMINAL_DEFINITIONS.transistor[0].x},0`} stroke="black" strokeWidth="2" fill="none" /> {/* Collector */}
+              <path d={`M14,${COMPONENT_SIZE - 14} L${TERMINAL_DEFINITIONS.transistor[2].x},${COMPONENT_SIZE - 5} L${TERMINAL_DEFINITIONS.transistor[2].x},${COMPONENT_SIZE}`} stroke="black" strokeWidth="2" fill="none" /> {/* Emitter */}
+              {component.bjtModel?.polarity === 'pnp' ? (
+                <polygon points={`15,${COMPONENT_SIZE - 14} 22,${COMPONENT_SIZE - 14} 19,${COMPONENT_SIZE - 9}`} fill="black" />
+              ) : (
+                <polygon points={`${TERMINAL_DEFINITIONS.transistor[2].x},${COMPONENT_SIZE - 5} 21,${COMPONENT_SIZE - 6} 25,${COMPONENT_SIZE - 12}`} fill="black" />
+              )}
+            </>
+          )}
+          {component.type === 'bulb' && (
+            <>
+              <line x1={0} y1={COMPONENT_SIZE / 2} x2={5} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE - 5} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              {glow && !glow.burntOut && glow.brightness > 0 && (
+                <circle cx={COMPONENT_SIZE / 2} cy={COMPONENT_SIZE / 2} r={COMPONENT_SIZE / 2 + 4} fill="#ffd84d" opacity={glow.brightness * 0.5} />
+              )}
               <circle
-                key={term.id}
-                cx={term.x}
-                cy={term.y}
-                r="3"
-                fill="red"
+                cx={COMPONENT_SIZE / 2}
+                cy={COMPONENT_SIZE / 2}
+                r={COMPONENT_SIZE / 2 - 5}
                 stroke="black"
-                strokeWidth="1"
-                data-terminal-id={index} // Store internal terminal index
+                strokeWidth="2"
+                fill={glow?.burntOut ? '#7f8c8d' : glow ? `rgba(255, 221, 0, ${glow.brightness})` : 'none'}
               />
-            ))}
-          </>
-        )}
-        {/* Default / Fallback for unhandled types or debugging */}
-        {!['resistor', 'voltage', 'capacitor', 'inductor', 'diode', 'transistor', 'bulb', 'subcircuit'].includes(component.type) && (
-          <rect x={0} y={0} width={COMPONENT_SIZE} height={COMPONENT_SIZE} fill="lightgray" stroke="black" />
+              {/* A burnt-out filament is drawn broken */}
+              <line x1={COMPONENT_SIZE / 2 - 10} y1={COMPONENT_SIZE / 2 - 10} x2={COMPONENT_SIZE / 2 + 10} y2={COMPONENT_SIZE / 2 + 10} stroke="black" strokeWidth="2" strokeDasharray={glow?.burntOut ? '11 6' : undefined} />
+              <line x1={COMPONENT_SIZE / 2 + 10} y1={COMPONENT_SIZE / 2 - 10} x2={COMPONENT_SIZE / 2 - 10} y2={COMPONENT_SIZE / 2 + 10} stroke="black" strokeWidth="2" strokeDasharray={glow?.burntOut ? '11 6' : undefined} />
+            </>
+          )}
+          {component.type === 'spst' && (
+            <>
+              {/* The blade is drawn in the switch's DC state; double-click flips it */}
+              <line x1={0} y1={COMPONENT_SIZE / 2} x2={10} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE - 10} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <circle cx={10} cy={COMPONENT_SIZE / 2} r={2} fill="black" />
+              <circle cx={COMPONENT_SIZE - 10} cy={COMPONENT_SIZE / 2} r={2} fill="black" />
+              <line
+                x1={10}
+                y1={COMPONENT_SIZE / 2}
+                x2={COMPONENT_SIZE - 11}
+                y2={switchModelOf(component).closed ? COMPONENT_SIZE / 2 : COMPONENT_SIZE / 2 - 10}
+                stroke="black"
+                strokeWidth="2"
+              />
+            </>
+          )}
+          {component.type === 'spdt' && (
+            <>
+              <line x1={0} y1={COMPONENT_SIZE / 2} x2={10} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE - 10} y1={COMPONENT_SIZE / 4} x2={COMPONENT_SIZE} y2={COMPONENT_SIZE / 4} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE - 10} y1={(COMPONENT_SIZE * 3) / 4} x2={COMPONENT_SIZE} y2={(COMPONENT_SIZE * 3) / 4} stroke="black" strokeWidth="2" />
+              <circle cx={10} cy={COMPONENT_SIZE / 2} r={2} fill="black" />
+              <circle cx={COMPONENT_SIZE - 10} cy={COMPONENT_SIZE / 4} r={2} fill="black" />
+              <circle cx={COMPONENT_SIZE - 10} cy={(COMPONENT_SIZE * 3) / 4} r={2} fill="black" />
+              {/* Closed throws the blade to NO (bottom), open rests it on NC (top) */}
+              <line
+                x1={10}
+                y1={COMPONENT_SIZE / 2}
+                x2={COMPONENT_SIZE - 11}
+                y2={switchModelOf(component).closed ? (COMPONENT_SIZE * 3) / 4 : COMPONENT_SIZE / 4}
+                stroke="black"
+                strokeWidth="2"
+              />
+            </>
+          )}
+          {component.type === 'ground' && (
+            <>
+              <line x1={COMPONENT_SIZE / 2} y1={0} x2={COMPONENT_SIZE / 2} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 - 15} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE / 2 + 15} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 - 10} y1={COMPONENT_SIZE / 2 + 6} x2={COMPONENT_SIZE / 2 + 10} y2={COMPONENT_SIZE / 2 + 6} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 - 5} y1={COMPONENT_SIZE / 2 + 12} x2={COMPONENT_SIZE / 2 + 5} y2={COMPONENT_SIZE / 2 + 12} stroke="black" strokeWidth="2" />
+            </>
+          )}
+          {component.type === 'label' && (
+            <>
+              {/* Tag pointing back at the wire it names */}
+              <path
+                d={`M0,${COMPONENT_SIZE / 2} L8,${COMPONENT_SIZE / 2 - 8} H${COMPONENT_SIZE} V${COMPONENT_SIZE / 2 + 8} H8 Z`}
+                stroke="black"
+                strokeWidth="2"
+                fill="white"
+              />
+              <text x={COMPONENT_SIZE / 2 + 4} y={COMPONENT_SIZE / 2 + 4} textAnchor="middle" fontSize="10" fill="black">
+                {component.netName}
+              </text>
+            </>
+          )}
+          {component.type === 'rail' && (
+            <>
+              <line x1={COMPONENT_SIZE / 2} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE / 2} y2={COMPONENT_SIZE} stroke="black" strokeWidth="2" />
+              <line x1={COMPONENT_SIZE / 2 - 12} y1={COMPONENT_SIZE / 2} x2={COMPONENT_SIZE / 2 + 12} y2={COMPONENT_SIZE / 2} stroke="black" strokeWidth="2" />
+              <text x={COMPONENT_SIZE / 2} y={COMPONENT_SIZE / 2 - 6} textAnchor="middle" fontSize="10" fill="black">
+                {component.netName}
+              </text>
+            </>
+          )}
+          {component.type === 'subcircuit' && (
+            <>
+              <rect x={0} y={0} width={actualWidth} height={actualHeight} fill="lightblue" stroke="black" strokeWidth="2" rx="5" ry="5" />
+              <text x={actualWidth / 2} y={actualHeight / 2} textAnchor="middle" fontSize="12" fill="black">
+                {subcircuits.find(s => s.id === component.subcircuitId)?.name || 'Custom'}
+              </text>
+            </>
+          )}
+          {/* Pins from the shared registry, so wires visibly land where the simulator connects them */}
+          {terminalsOf(component, subcircuits).map((term, index) => (
+            <circle
+              key={`terminal_${index}`}
+              cx={term.x}
+              cy={term.y}
+              r={component.type === 'subcircuit' ? 3 : 2}
+              fill={component.type === 'subcircuit' ? 'red' : 'black'}
+              stroke="black"
+              strokeWidth="1"
+              data-terminal-id={index} // Store terminal index
+            >
+              <title>{term.name}</title>
+            </circle>
+          ))}
+          {/* Default / Fallback for unhandled types or debugging */}
+          {!['resistor', 'voltage', 'current', 'vcvs', 'vccs', 'ccvs', 'cccs', 'capacitor', 'inductor', 'diode', 'transistor', 'bulb', 'spst', 'spdt', 'ground', 'label', 'rail', 'subcircuit'].includes(component.type) && (
+            <rect x={0} y={0} width={COMPONENT_SIZE} height={COMPONENT_SIZE} fill="lightgray" stroke="black" />
+          )}
+          {/* Always render type text for debugging/clarity for simple components */}
+          { !component.subcircuitId && !isNetSymbol(component) && (
+              <text x="5" y="20" fontSize="10">
+                {component.type}
+              </text>
+          )}
+        </g>
+        {selection.includes(component.id) && (
+          <rect x={-4} y={-4} width={boundingBox.width + 8} height={boundingBox.height + 8} fill="none" stroke="#3498db" strokeWidth="2" strokeDasharray="4 2" />
         )}
-        {/* Always render type text for debugging/clarity for simple components */}
-        { !component.subcircuitId && (
-            <text x="5" y="20" fontSize="10">
-              {component.type}
-            </text>
+        {component.id === errorComponentId && (
+          <rect x={-6} y={-6} width={boundingBox.width + 12} height={boundingBox.height + 12} fill="rgba(231, 76, 60, 0.15)" stroke="#e74c3c" strokeWidth="2" />
         )}
       </g>
     );
   };
 
+  // Wires follow their pins and waypoints with horizontal and vertical segments only, coloured
+  // by the voltage of their net once the circuit has been simulated
   const renderWire = (wire: Wire) => {
-    const fromComponent = components.find((c) => c.id === wire.from.componentId);
-    const toComponent = components.find((c) => c.id === wire.to.componentId);
-
-    if (!fromComponent || !toComponent) {
-      return null; // Don't render if components are missing
-    }
-
-    // Get terminal positions relative to the component's origin
-    const x1_offset = getTerminalGlobalX(fromComponent, wire.from.terminal, subcircuits);
-    const y1_offset = getTerminalGlobalY(fromComponent, wire.from.terminal, subcircuits);
-    const x2_offset = getTerminalGlobalX(toComponent, wire.to.terminal, subcircuits);
-    const y2_offset = getTerminalGlobalY(toComponent, wire.to.terminal, subcircuits);
-
-    // Calculate global coordinates for the wire
-    const x1 = fromComponent.x + x1_offset;
-    const y1 = fromComponent.y + y1_offset;
-    const x2 = toComponent.x + x2_offset;
-    const y2 = toComponent.y + y2_offset;
+    const route = wireRoute(wire, components, subcircuits);
+    if (!route) return null; // Don't render if components are missing
+    const voltage = results ? wireVoltage(results, wire.id) : undefined;
 
     return (
-      <line
+      <polyline
         key={wire.id}
-        x1={x1}
-        y1={y1}
-        x2={x2}
-        y2={y2}
-        stroke="black"
+        points={route.map(p => `${p.x},${p.y}`).join(' ')}
+        fill="none"
+        stroke={voltage === undefined ? 'black' : voltageColor(voltage, results!)}
         strokeWidth="2"
       />
     );
   };
 
+  // Dots travelling along a piece of wire in the direction of its current
+  const renderCurrentFlow = (piece: WirePiece, index: number) => {
+    const speed = piece.current === null ? null : flowSpeed(piece.current);
+    if (speed === null) return null;
+    return (
+      <polyline
+        key={`flow_${index}`}
+        className="current-flow"
+        points={piece.points.map(p => `${p.x},${p.y}`).join(' ')}
+        fill="none"
+        stroke="#f1c40f"
+        strokeWidth="4"
+        strokeLinecap="round"
+        strokeDasharray={`0 ${DOT_SPACING}`}
+        pointerEvents="none"
+        style={{ animationDuration: `${DOT_SPACING / speed}s`, animationDirection: piece.current! > 0 ? 'normal' : 'reverse' }}
+      />
+    );
+  };
+
+  // A pin-shaped marker, V or I, in its trace colour; with the probe tool a click removes it
+  const renderProbe = (probe: Probe, index: number) => {
+    const position = probePosition(probe, components, wires, subcircuits);
+    if (!position) return null;
+    return (
+      <g
+        key={probe.id}
+        transform={`translate(${position.x}, ${position.y})`}
+        pointerEvents={selectedTool === 'probe' ? undefined : 'none'}
+        style={{ cursor: selectedTool === 'probe' ? 'pointer' : undefined }}
+        onMouseDown={(e) => {
+          if (e.button !== 0) return;
+          e.stopPropagation();
+          setProbes(prev => prev.filter(p => p.id !== probe.id));
+        }}
+      >
+        <line x1={0} y1={0} x2={10} y2={-10} stroke={traceColor(index)} strokeWidth="2" />
+        <circle cx={14} cy={-14} r={7} fill={traceColor(index)} />
+        <text x={14} y={-11} textAnchor="middle" fontSize="9" fill="white">{probe.kind === 'voltage' ? 'V' : 'I'}</text>
+        <title>{probe.kind === 'voltage' ? 'Voltage probe' : 'Current probe'}</title>
+      </g>
+    );
+  };
+
   return (
+    <div className="canvas-container">
     <svg
       ref={svgRef}
       className="canvas"
       onClick={handleCanvasClick}
+      onMouseDownCapture={handlePanMouseDown}
+      onMouseDown={handleCanvasMouseDown}
       onDragOver={handleDragOver} // Handle drag over
       onDrop={handleDrop} // Handle drop
+      onMouseLeave={() => setHover(null)}
       width="100%"
       height="100%"
+      style={{ cursor: panning ? 'grabbing' : spaceHeld ? 'grab' : undefined }}
     >
-      {/* Grid */}
+      {/* Grid, moving and scaling with the view */}
       <defs>
-        <pattern id="grid" width={GRID_SIZE} height={GRID_SIZE} patternUnits="userSpaceOnUse">
-          <path d={`M ${GRID_SIZE} 0 L 0 0 0 ${GRID_SIZE}`} fill="none" stroke="#eee" />
+        <pattern id="grid" width={GRID_SIZE} height={GRID_SIZE} patternUnits="userSpaceOnUse" patternTransform={viewTransform(view)}>
+          <path d={`M ${GRID_SIZE} 0 L 0 0 0 ${GRID_SIZE}`} fill="none" stroke="#eee" vectorEffect="non-scaling-stroke" />
         </pattern>
       </defs>
       <rect width="100%" height="100%" fill="url(#grid)" />
 
-      {/* Components rendering */}
-      {components.map(renderComponent)}
-
-      {/* Wires rendering */}
-      {wires.map(renderWire)}
-      {currentWire && (
-        <line
-          x1={currentWire.x1}
-          y1={currentWire.y1}
-          x2={currentWire.x2}
-          y2={currentWire.y2}
-          stroke="red"
-          strokeWidth="2"
-        />
-      )}
+      <g transform={viewTransform(view)}>
+        {/* Components rendering */}
+        {components.map(renderComponent)}
+
+        {/* Wires rendering */}
+        {wires.map(renderWire)}
+        {junctionPoints(wires, components, subcircuits).map(p => (
+          <circle key={`junction_${p.x}_${p.y}`} cx={p.x} cy={p.y} r={4} fill="black" />
+        ))}
+        {pieces.map(renderCurrentFlow)}
+        {probes.map(renderProbe)}
+        {wireDraft && (
+          <polyline
+            points={orthogonalRoute([
+              endPosition(wireDraft.from, components, subcircuits) ?? wireDraft.cursor,
+              ...wireDraft.waypoints,
+              wireDraft.cursor,
+            ]).map(p => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke="red"
+            strokeWidth="2"
+          />
+        )}
+        {selectionBox && (
+          <rect
+            x={Math.min(selectionBox.x1, selectionBox.x2)}
+            y={Math.min(selectionBox.y1, selectionBox.y2)}
+            width={Math.abs(selectionBox.x2 - selectionBox.x1)}
+            height={Math.abs(selectionBox.y2 - selectionBox.y1)}
+            fill="rgba(52, 152, 219, 0.1)"
+            stroke="#3498db"
+            strokeDasharray="4 2"
+          />
+        )}
+      </g>
     </svg>
+    {hover && !dragging && !panning && !selectionBox && !wireDraft && (
+      <div className="sim-tooltip" style={{ left: hover.x + 12, top: hover.y + 12 }}>
+        {hover.lines.join('\n')}
+      </div>
+    )}
+    <div className="zoom-controls">
+      <button onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out">−</button>
+      <button onClick={() => zoomBy(1 / view.zoom)} title="Reset zoom to 100%">{Math.round(view.zoom * 100)}%</button>
+      <button onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in">+</button>
+      <button onClick={zoomToFit} title="Zoom to fit (F)">Fit</button>
+    </div>
+    {contextMenu && (
+      <div
+        className="context-menu"
+        style={{ left: contextMenu.x, top: contextMenu.y }}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        {ORIENTATION_MENU.map(({ orientation, label, shortcut }) => (
+          <button
+            key={orientation}
+            onClick={() => {
+              execute(orientComponents(contextMenu.ids, orientation));
+              setContextMenu(null);
+            }}
+          >
+            {label}<span className="shortcut">{shortcut}</span>
+          </button>
+        ))}
+      </div>
+    )}
+    </div>
   );
 };
 
+// How close to a wire, in screen pixels, a press or release lands on it
+const WIRE_HIT_TOLERANCE = 6;
+
+// Controlled sources draw their output diamond on the line of their output pins
+const OUTPUT_X = TERMINAL_DEFINITIONS.vcvs[0].x;
+
+const ORIENTATION_MENU: { orientation: Orientation; label: string; shortcut: string }[] = [
+  { orientation: 'rotateClockwise', label: 'Rotate 90° clockwise', shortcut: 'R' },
+  { orientation: 'rotateCounterClockwise', label: 'Rotate 90° counter-clockwise', shortcut: 'Shift+R' },
+  { orientation: 'mirrorHorizontal', label: 'Mirror horizontally', shortcut: 'H' },
+  { orientation: 'mirrorVertical', label: 'Mirror vertically', shortcut: 'V' },
+];
+
 // Helper function to get default value (kept for handleCanvasClick if you use it)
 // In a real application, this should probably live closer to where components are instantiated, e.g., App.tsx
 function getDefaultValue(type: ComponentType): number {
@@ -457,9 +936,19 @@ function getDefaultValue(type: ComponentType): number {
     capacitor: 0.000001,
     inductor: 0.001,
     voltage: 5,
-    diode: 0.7,
+    current: 0.001,
+    vcvs: 10, // Controlled sources hold their gain
+    vccs: 0.001,
+    ccvs: 1000,
+    cccs: 10,
+    diode: 0, // Diodes are described by diodeModel
     transistor: 0,
     bulb: 0,
+    spst: 0, // Switches are described by switchModel
+    spdt: 0,
+    ground: 0, // Net symbols carry a name, not a value
+    label: 0,
+    rail: 0,
     subcircuit: 0, // Subcircuits don't have a direct 'value'
   };
   return defaults[type];
@@ -472,16 +961,7 @@ function isPointInsideComponent(
   component: CircuitComponent,
   subcircuits: SubCircuit[]
 ): boolean {
-  let actualWidth = COMPONENT_SIZE;
-  let actualHeight = COMPONENT_SIZE;
-
-  if (component.type === 'subcircuit' && component.subcircuitId) {
-    const subcircuitDef = subcircuits.find(s => s.id === component.subcircuitId);
-    if (subcircuitDef) {
-      actualWidth = subcircuitDef.width;
-      actualHeight = subcircuitDef.height;
-    }
-  }
+  const { width: actualWidth, height: actualHeight } = componentSize(component, subcircuits);
 
   return (
     x >= component.x &&
@@ -491,52 +971,4 @@ function isPointInsideComponent(
   );
 }
 
-// Function to get the nearest terminal, now accounting for subcircuit terminals
-function getNearestTerminal(
-  e: MouseEvent,
-  component: CircuitComponent,
-  svgRect: DOMRect,
-  subcircuits: SubCircuit[]
-): number {
-  const x = e.clientX - svgRect.left - component.x;
-  const y = e.clientY - svgRect.top - component.y;
-
-  if (component.type === 'subcircuit' && component.subcircuitId) {
-    const subcircuitDef = subcircuits.find(s => s.id === component.subcircuitId);
-    if (subcircuitDef) {
-      const allTerminals = [...subcircuitDef.inputs, ...subcircuitDef.outputs];
-      let minDistance = Infinity;
-      let nearestTerminalIndex = -1;
-
-      allTerminals.forEach((term, index) => {
-        const dist = Math.sqrt(Math.pow(x - term.x, 2) + Math.pow(y - term.y, 2));
-        if (dist < minDistance) {
-          minDistance = dist;
-          nearestTerminalIndex = index;
-        }
-      });
-      // You might want to add a threshold here, so if the click is too far, it doesn't snap.
-      if (minDistance < 15) { // Example threshold
-        return nearestTerminalIndex;
-      }
-    }
-  }
-
-  // Default terminal logic for basic components (left/right/top/bottom center)
-  // We'll use 0 for left, 1 for right, 2 for top, 3 for bottom
-  const termX = COMPONENT_SIZE / 2;
-  const termY = COMPONENT_SIZE / 2;
-
-  const distLeft = Math.sqrt(Math.pow(x - 0, 2) + Math.pow(y - termY, 2));
-  const distRight = Math.sqrt(Math.pow(x - COMPONENT_SIZE, 2) + Math.pow(y - termY, 2));
-  const distTop = Math.sqrt(Math.pow(x - termX, 2) + Math.pow(y - 0, 2));
-  const distBottom = Math.sqrt(Math.pow(x - termX, 2) + Math.pow(y - COMPONENT_SIZE, 2));
-
-  const distances = [distLeft, distRight, distTop, distBottom];
-  const minIdx = distances.indexOf(Math.min(...distances));
-
-  return minIdx;
-}
-
-
 export default Canvas;
\ No newline at end of file
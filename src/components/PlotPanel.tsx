@@ -0,0 +1,474 @@
+// src/components/PlotPanel.tsx
+import React, { useState, useMemo, useRef } from 'react';
+import { CircuitComponent, Wire, SubCircuit, Probe } from '../types/types';
+import { simulateTransient, TransientResult } from '../simulation/transient';
+import { simulateAC, AcResult } from '../simulation/ac';
+import { AnalysisKind, AnalysisSettings } from '../simulation/simulator';
+import {
+  simulateDcSweep,
+  parametricSweep,
+  hasSweepableValue,
+  isSweepSource,
+  DcSweepResult,
+  ParametricRun,
+  SweepParameter,
+  SweepSteps,
+} from '../simulation/sweep';
+import { designatorsOf } from '../spice/exporter';
+import { transientPlot, acPlot, dcSweepPlot, sweepStepLabel, AcQuantity } from '../probes';
+import {
+  PlotData,
+  Range,
+  dataRange,
+  axisFraction,
+  axisValue,
+  axisTicks,
+  valueAt,
+  plotCsv,
+  familyPlot,
+  formatPlotValue,
+} from '../plot';
+import '../styles.css';
+
+interface PlotPanelProps {
+  components: CircuitComponent[];
+  wires: Wire[];
+  subcircuits: SubCircuit[];
+  probes: Probe[]; // Probes still attached to the circuit, in trace colour order
+  settings: AnalysisSettings;
+  onSettingsChange: (settings: AnalysisSettings) => void;
+  onRemoveProbe: (id: string) => void;
+  onExportCsv: (csv: string) => void;
+}
+
+type Analysis =
+  | { kind: 'transient'; result: TransientResult }
+  | { kind: 'ac'; result: AcResult }
+  | { kind: 'dc'; result: DcSweepResult };
+
+// The last analysis run (one per parametric step), with the circuit it ran on so edits made
+// since can be flagged
+interface Run {
+  kind: AnalysisKind;
+  runs: ParametricRun<Analysis>[];
+  error?: string;
+  circuit: [CircuitComponent[], Wire[], SubCircuit[]];
+}
+
+const WIDTH = 420;
+const HEIGHT = 260;
+const MARGIN = { left: 56, right: 12, top: 10, bottom: 28 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const DEFAULT_STEPS: SweepSteps = { kind: 'linear', start: 0, stop: 5, step: 0.5 };
+
+// Drag across the plot to zoom in on a span of x; click to place cursor A, shift-click for B
+const PlotPanel: React.FC<PlotPanelProps> = ({
+  components,
+  wires,
+  subcircuits,
+  probes,
+  settings,
+  onSettingsChange,
+  onRemoveProbe,
+  onExportCsv,
+}) => {
+  const { kind: analysis, transient: { stopTime, timeStep }, ac: { startFrequency, stopFrequency, points: frequencyPoints } } = settings;
+  const setAnalysis = (kind: AnalysisKind) => onSettingsChange({ ...settings, kind });
+  const setTransient = (changes: Partial<AnalysisSettings['transient']>) =>
+    onSettingsChange({ ...settings, transient: { ...settings.transient, ...changes } });
+  const setAc = (changes: Partial<AnalysisSettings['ac']>) => onSettingsChange({ ...settings, ac: { ...settings.ac, ...changes } });
+  const [dcSweep, setDcSweep] = useState<SweepParameter>({ componentId: '', steps: DEFAULT_STEPS });
+  // Parametric steps around the analysis; the first one is the outermost loop. The id keeps each
+  // row's fields with its parameter when an earlier one is removed.
+  const [parameters, setParameters] = useState<(SweepParameter & { id: string })[]>([]);
+  const [acQuantity, setAcQuantity] = useState<AcQuantity>('magnitude');
+  const [run, setRun] = useState<Run | null>(null);
+  const [xZoom, setXZoom] = useState<Range | null>(null);
+  const [logX, setLogX] = useState(false);
+  const [logY, setLogY] = useState(false);
+  const [cursors, setCursors] = useState<{ a: number | null; b: number | null }>({ a: null, b: null });
+  const [drag, setDrag] = useState<{ start: number; end: number } | null>(null); // x pixels within the plot area
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const designators = designatorsOf(components);
+  const sources = components.filter(isSweepSource);
+  const sweepable = components.filter(hasSweepableValue);
+  // Until one is picked, the DC sweep steps the first source
+  const dcSourceId = sources.some(c => c.id === dcSweep.componentId) ? dcSweep.componentId : sources[0]?.id ?? '';
+
+  const handleRun = () => {
+    const analyse = (variant: CircuitComponent[]): Analysis => {
+      if (analysis === 'transient') {
+        return { kind: 'transient', result: simulateTransient(variant, wires, subcircuits, settings.transient) };
+      }
+      if (analysis === 'ac') {
+        return { kind: 'ac', result: simulateAC(variant, wires, subcircuits, settings.ac) };
+      }
+      return { kind: 'dc', result: simulateDcSweep(variant, wires, subcircuits, { ...dcSweep, componentId: dcSourceId }) };
+    };
+    const { runs, error } = parametricSweep(components, parameters, analyse);
+    setRun({ kind: analysis, runs, error, circuit: [components, wires, subcircuits] });
+    setLogX(analysis === 'ac');
+    setXZoom(null);
+    setCursors({ a: null, b: null });
+  };
+
+  // Traces follow the probes, so probes added or removed after a run show up straight away
+  const data: PlotData | null = useMemo(() => {
+    if (!run || run.runs.length === 0) return null;
+    const plotOf = (step: Analysis) => {
+      switch (step.kind) {
+        case 'transient': return transientPlot(probes, step.result, components);
+        case 'ac': return acPlot(probes, step.result, components, acQuantity);
+        case 'dc': return dcSweepPlot(probes, step.result, components);
+      }
+    };
+    return familyPlot(run.runs.map(r => ({ label: sweepStepLabel(r.values, components), data: plotOf(r.result) })));
+  }, [run, probes, components, acQuantity]);
+  const stale = run !== null && (run.circuit[0] !== components || run.circuit[1] !== wires || run.circuit[2] !== subcircuits);
+
+  const xRange = xZoom ?? (data ? dataRange(data.x, logX) : null);
+  // The y axis fits the traces within the visible span of x
+  const yRange = data && xRange
+    ? dataRange(data.traces.flatMap(t => t.values.filter((_, i) => data.x[i] >= xRange.min && data.x[i] <= xRange.max)), logY)
+    : null;
+
+  const toPixelX = (x: number) => MARGIN.left + axisFraction(x, xRange!, logX) * PLOT_WIDTH;
+  const toPixelY = (y: number) => MARGIN.top + (1 - axisFraction(y, yRange!, logY)) * PLOT_HEIGHT;
+
+  // Pointer position in plot pixels, clamped to the plot area
+  const plotX = (e: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) * WIDTH) / rect.width - MARGIN.left;
+    return Math.min(PLOT_WIDTH, Math.max(0, x));
+  };
+  const xAt = (pixel: number) => axisValue(pixel / PLOT_WIDTH, xRange!, logX);
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (!drag) return;
+    setDrag(null);
+    const end = plotX(e);
+    if (Math.abs(end - drag.start) > 4) {
+      setXZoom({ min: xAt(Math.min(drag.start, end)), max: xAt(Math.max(drag.start, end)) });
+    } else {
+      const x = xAt(end);
+      setCursors(prev => (e.shiftKey ? { ...prev, b: x } : { ...prev, a: x }));
+    }
+  };
+
+  // A trace as polylines, broken wherever it has no value (or a non-positive one on a log axis)
+  const tracePaths = (values: number[]) => {
+    const paths: string[][] = [[]];
+    data!.x.forEach((x, i) => {
+      const value = values[i];
+      const drawable = Number.isFinite(value) && !(logY && value <= 0) && !(logX && x <= 0);
+      if (!drawable) {
+        if (paths[paths.length - 1].length > 0) paths.push([]);
+        return;
+      }
+      paths[paths.length - 1].push(`${toPixelX(x)},${toPixelY(value)}`);
+    });
+    return paths.filter(path => path.length > 0);
+  };
+
+  // A sweep that could not start, or the first step that failed
+  const failed = run?.runs.find(r => r.result.result.error);
+  const error = run?.error ?? (failed && (
+    Object.keys(failed.values).length > 0
+      ? `${sweepStepLabel(failed.values, components)}: ${failed.result.result.error}`
+      : failed.result.result.error
+  ));
+  // Tick labels carry the unit only when every trace shares it
+  const units = data ? Array.from(new Set(data.traces.map(t => t.unit))) : [];
+  const yUnit = units.length === 1 ? units[0] : '';
+
+  return (
+    <div className="plot-panel">
+      <h3>Waveforms</h3>
+      <div className="property-row">
+        <label>Analysis:</label>
+        <select value={analysis} onChange={(e) => setAnalysis(e.target.value as AnalysisKind)}>
+          <option value="transient">Transient</option>
+          <option value="ac">AC sweep</option>
+          <option value="dc">DC sweep</option>
+        </select>
+      </div>
+      {analysis === 'transient' && (
+        <>
+          <div className="property-row">
+            <label>Stop time:</label>
+            <input type="number" value={stopTime} step={0.001} onChange={(e) => setTransient({ stopTime: parseFloat(e.target.value) || 0 })} />
+            <span className="unit">s</span>
+          </div>
+          <div className="property-row">
+            <label>Time step:</label>
+            <input type="number" value={timeStep} step={0.00001} onChange={(e) => setTransient({ timeStep: parseFloat(e.target.value) || 0 })} />
+            <span className="unit">s</span>
+          </div>
+        </>
+      )}
+      {analysis === 'ac' && (
+        <>
+          <div className="property-row">
+            <label>Start:</label>
+            <input type="number" value={startFrequency} onChange={(e) => setAc({ startFrequency: parseFloat(e.target.value) || 0 })} />
+            <span className="unit">Hz</span>
+          </div>
+          <div className="property-row">
+            <label>Stop:</label>
+            <input type="number" value={stopFrequency} onChange={(e) => setAc({ stopFrequency: parseFloat(e.target.value) || 0 })} />
+            <span className="unit">Hz</span>
+          </div>
+          <div className="property-row">
+            <label>Points:</label>
+            <input type="number" value={frequencyPoints} step={1} onChange={(e) => setAc({ points: parseInt(e.target.value, 10) || 0 })} />
+          </div>
+        </>
+      )}
+      {analysis === 'dc' && (
+        <>
+          <div className="property-row">
+            <label>Source:</label>
+            <select value={dcSourceId} onChange={(e) => setDcSweep({ ...dcSweep, componentId: e.target.value })}>
+              {sources.map(c => <option key={c.id} value={c.id}>{designators.get(c.id)}</option>)}
+            </select>
+          </div>
+          <SweepStepsFields steps={dcSweep.steps} onChange={steps => setDcSweep({ ...dcSweep, steps })} />
+        </>
+      )}
+
+      {/* Each parameter repeats everything below it, so two parameters give a run per pair of values */}
+      <h4>Parametric sweep</h4>
+      {parameters.map(parameter => (
+        <div className="sweep-parameter" key={parameter.id}>
+          <div className="property-row">
+            <label>Step:</label>
+            <select
+              value={parameter.componentId}
+              onChange={(e) => setParameters(prev => prev.map(p => (p.id === parameter.id ? { ...p, componentId: e.target.value } : p)))}
+            >
+              {sweepable.map(c => <option key={c.id} value={c.id}>{designators.get(c.id)}</option>)}
+            </select>
+            <button onClick={() => setParameters(prev => prev.filter(p => p.id !== parameter.id))} title="Remove parameter">×</button>
+          </div>
+          <SweepStepsFields
+            steps={parameter.steps}
+            onChange={steps => setParameters(prev => prev.map(p => (p.id === parameter.id ? { ...p, steps } : p)))}
+          />
+        </div>
+      ))}
+      <button
+        onClick={() => setParameters(prev => [...prev, {
+          id: Date.now().toString(),
+          componentId: sweepable[0].id,
+          steps: { kind: 'list', values: [sweepable[0].value] },
+        }])}
+        disabled={sweepable.length === 0}
+      >
+        Add parameter
+      </button>
+      <button onClick={handleRun}>Run</button>
+
+      {probes.length === 0 && <p className="hint">Use the Probe tool to put probes on wires (voltage) or components (current).</p>}
+      {error && <p className="plot-error">{error}</p>}
+      {stale && <p className="hint">The circuit has changed since this run.</p>}
+
+      {data && xRange && yRange && (
+        <>
+          {run?.kind === 'ac' && (
+            <div className="property-row">
+              <label>Show:</label>
+              <select value={acQuantity} onChange={(e) => setAcQuantity(e.target.value as AcQuantity)}>
+                <option value="magnitude">Magnitude (dB)</option>
+                <option value="phase">Phase (°)</option>
+              </select>
+            </div>
+          )}
+          <svg
+            ref={svgRef}
+            className="plot"
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            onMouseDown={(e) => setDrag({ start: plotX(e), end: plotX(e) })}
+            onMouseMove={(e) => drag && setDrag({ ...drag, end: plotX(e) })}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => setDrag(null)}
+          >
+            <defs>
+              <clipPath id="plot-area">
+                <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} />
+              </clipPath>
+            </defs>
+            <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="white" stroke="#999" />
+            {axisTicks(xRange, logX).map(tick => (
+              <g key={`x_${tick}`}>
+                <line x1={toPixelX(tick)} y1={MARGIN.top} x2={toPixelX(tick)} y2={MARGIN.top + PLOT_HEIGHT} stroke="#eee" />
+                <text x={toPixelX(tick)} y={HEIGHT - MARGIN.bottom + 14} textAnchor="middle" fontSize="10">
+                  {formatPlotValue(tick, data.xUnit)}
+                </text>
+              </g>
+            ))}
+            {axisTicks(yRange, logY).map(tick => (
+              <g key={`y_${tick}`}>
+                <line x1={MARGIN.left} y1={toPixelY(tick)} x2={MARGIN.left + PLOT_WIDTH} y2={toPixelY(tick)} stroke="#eee" />
+                <text x={MARGIN.left - 4} y={toPixelY(tick) + 3} textAnchor="end" fontSize="10">
+                  {formatPlotValue(tick, yUnit)}
+                </text>
+              </g>
+            ))}
+            <g clipPath="url(#plot-area)">
+              {data.traces.map(trace => tracePaths(trace.values).map((points, i) => (
+                <polyline
+                  key={`${trace.id}_${i}`}
+                  points={points.join(' ')}
+                  fill="none"
+                  stroke={trace.color}
+                  strokeDasharray={trace.dash}
+                  strokeWidth="1.5"
+                />
+              )))}
+              {(['a', 'b'] as const).map(name => {
+                const x = cursors[name];
+                if (x === null || x < xRange.min || x > xRange.max) return null;
+                return (
+                  <g key={name}>
+                    <line x1={toPixelX(x)} y1={MARGIN.top} x2={toPixelX(x)} y2={MARGIN.top + PLOT_HEIGHT} stroke="black" strokeDasharray={name === 'a' ? undefined : '4 2'} />
+                    <text x={toPixelX(x) + 3} y={MARGIN.top + 10} fontSize="10">{name.toUpperCase()}</text>
+                  </g>
+                );
+              })}
+              {drag && (
+                <rect
+                  x={MARGIN.left + Math.min(drag.start, drag.end)}
+                  y={MARGIN.top}
+                  width={Math.abs(drag.end - drag.start)}
+                  height={PLOT_HEIGHT}
+                  fill="rgba(52, 152, 219, 0.15)"
+                />
+              )}
+            </g>
+          </svg>
+          <div className="plot-controls">
+            <label><input
+                type="checkbox"
+                checked={logX}
+                onChange={(e) => {
+                  setLogX(e.target.checked);
+                  setXZoom(null); // A zoomed span may reach zero or below, which a log axis cannot show
+                }}
+              /> Log X</label>
+            <label><input type="checkbox" checked={logY} onChange={(e) => setLogY(e.target.checked)} /> Log Y</label>
+            <button onClick={() => setXZoom(null)} disabled={!xZoom}>Reset zoom</button>
+            <button onClick={() => onExportCsv(plotCsv(data, xZoom ?? undefined))}>Export CSV</button>
+          </div>
+          <table className="plot-readout">
+            <thead>
+              <tr>
+                <th />
+                <th>A</th>
+                <th>B</th>
+                <th>B − A</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>{data.xLabel}</td>
+                {readoutCells(cursors.a, cursors.b, data.xUnit)}
+                <td />
+              </tr>
+              {data.traces.map(trace => (
+                <tr key={trace.id}>
+                  <td style={{ color: trace.color }}>{trace.label}</td>
+                  {readoutCells(
+                    cursors.a === null ? null : valueAt(data.x, trace.values, cursors.a),
+                    cursors.b === null ? null : valueAt(data.x, trace.values, cursors.b),
+                    trace.unit
+                  )}
+                  <td>
+                    <button onClick={() => onRemoveProbe(trace.probeId)} title="Remove probe">×</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Start, stop and increment of a linear or decade sweep, or its list of values
+const SweepStepsFields: React.FC<{ steps: SweepSteps; onChange: (steps: SweepSteps) => void }> = ({ steps, onChange }) => {
+  // The list is edited as text so separators can be typed; it is parsed on every change
+  const [listText, setListText] = useState(steps.kind === 'list' ? steps.values.join(', ') : '');
+  const number = (text: string) => parseFloat(text) || 0;
+
+  const changeKind = (kind: SweepSteps['kind']) => {
+    if (kind === 'list') {
+      setListText('');
+      onChange({ kind, values: [] });
+    } else if (kind === 'linear') {
+      onChange(DEFAULT_STEPS);
+    } else {
+      onChange({ kind, start: 1, stop: 1000, pointsPerDecade: 5 });
+    }
+  };
+
+  return (
+    <>
+      <div className="property-row">
+        <label>Steps:</label>
+        <select value={steps.kind} onChange={(e) => changeKind(e.target.value as SweepSteps['kind'])}>
+          <option value="linear">Linear</option>
+          <option value="decade">Decade</option>
+          <option value="list">List</option>
+        </select>
+      </div>
+      {steps.kind === 'list' ? (
+        <div className="property-row">
+          <label>Values:</label>
+          <input
+            type="text"
+            value={listText}
+            placeholder="e.g. 1000, 2200, 4700"
+            onChange={(e) => {
+              setListText(e.target.value);
+              onChange({ kind: 'list', values: e.target.value.split(/[\s,;]+/).filter(Boolean).map(Number) });
+            }}
+          />
+        </div>
+      ) : (
+        <div className="property-row">
+          <input type="number" value={steps.start} title="Start" onChange={(e) => onChange({ ...steps, start: number(e.target.value) })} />
+          <input type="number" value={steps.stop} title="Stop" onChange={(e) => onChange({ ...steps, stop: number(e.target.value) })} />
+          {steps.kind === 'linear' ? (
+            <input type="number" value={steps.step} title="Step" onChange={(e) => onChange({ ...steps, step: number(e.target.value) })} />
+          ) : (
+            <input
+              type="number"
+              value={steps.pointsPerDecade}
+              title="Points per decade"
+              onChange={(e) => onChange({ ...steps, pointsPerDecade: number(e.target.value) })}
+            />
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+// Cursor values and their difference; blank where a cursor is unset or off the data
+function readoutCells(a: number | null, b: number | null, unit: string) {
+  const cell = (value: number | null) => (value === null || !Number.isFinite(value) ? '' : formatPlotValue(value, unit));
+  return (
+    <>
+      <td>{cell(a)}</td>
+      <td>{cell(b)}</td>
+      <td>{cell(a === null || b === null ? null : b - a)}</td>
+    </>
+  );
+}
+
+export default PlotPanel;
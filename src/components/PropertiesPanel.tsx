@@ -1,57 +1,302 @@
 // src/components/PropertiesPanel.tsx
-import React from 'react';
-import { CircuitComponent } from '../types/types';
+import React, { useRef } from 'react';
+import { CircuitComponent, DiodeModel, BjtModel, BulbModel, Tolerance } from '../types/types';
+import { DEFAULT_DIODE_MODEL, DEFAULT_BJT_MODEL, DEFAULT_BULB_MODEL, switchModelOf } from '../simulation/devices';
+import { hasSweepableValue } from '../simulation/sweep';
+import { formatSpiceNumber, parseSpiceNumber } from '../spice/units';
+import WaveformEditor from './WaveformEditor';
 import '../styles.css';
 
 interface ComponentPropertiesProps {
   component: CircuitComponent;
-  onUpdate: (id: string, value: number) => void;
+  // `session` identifies the edit the change belongs to, so that undo can group its keystrokes
+  onUpdate: (id: string, changes: Partial<CircuitComponent>, session: number) => void;
 }
 
+const diodeFields: { key: keyof DiodeModel; label: string; unit: string; step: number }[] = [
+  { key: 'saturationCurrent', label: 'Saturation current', unit: 'A', step: 1e-15 },
+  { key: 'emissionCoefficient', label: 'Emission coefficient', unit: '', step: 0.1 },
+  { key: 'seriesResistance', label: 'Series resistance', unit: 'Ω', step: 0.1 },
+];
+
+const bjtFields: { key: Exclude<keyof BjtModel, 'polarity'>; label: string; unit: string; step: number }[] = [
+  { key: 'forwardBeta', label: 'Forward beta', unit: '', step: 10 },
+  { key: 'reverseBeta', label: 'Reverse beta', unit: '', step: 0.1 },
+  { key: 'saturationCurrent', label: 'Saturation current', unit: 'A', step: 1e-15 },
+];
+
+const bulbFields: { key: keyof BulbModel; label: string; unit: string; step: number }[] = [
+  { key: 'ratedVoltage', label: 'Rated voltage', unit: 'V', step: 0.5 },
+  { key: 'ratedPower', label: 'Rated power', unit: 'W', step: 0.1 },
+];
+
+const switchFields: { key: 'onResistance' | 'offResistance'; label: string; unit: string; step: number }[] = [
+  { key: 'onResistance', label: 'On resistance', unit: 'Ω', step: 0.001 },
+  { key: 'offResistance', label: 'Off resistance', unit: 'Ω', step: 1e6 },
+];
+
+// Toggle times as typed, e.g. "1m, 2.5m"; null unless every entry is a number and they ascend
+function parseToggleTimes(text: string): number[] | null {
+  const times = text.split(/[\s,;]+/).filter(t => t !== '').map(parseSpiceNumber);
+  if (times.some(t => t === null)) return null;
+  return (times as number[]).every((t, i, all) => i === 0 || t >= all[i - 1]) ? (times as number[]) : null;
+}
+
+// What the gain of each controlled source relates, for the panel's explanation of its pins
+const controlDescriptions: { [type: string]: string } = {
+  vcvs: 'Output voltage = gain × voltage across C+ and C−.',
+  vccs: 'Output current = gain × voltage across C+ and C−.',
+  ccvs: 'Output voltage = gain × current flowing in at C+ and out at C−.',
+  cccs: 'Output current = gain × current flowing in at C+ and out at C−.',
+};
+
+// Shared by every mount of the panel so sessions never repeat
+let editSessions = 0;
+
 const ComponentProperties: React.FC<ComponentPropertiesProps> = ({
   component,
   onUpdate
 }) => {
+  // Moving focus into, out of or between fields ends the current edit, so returning to a field
+  // later (even on the same component) starts a new undo step
+  const editSession = useRef(0);
+  const startEditSession = () => {
+    editSession.current = ++editSessions;
+  };
+  const update = (changes: Partial<CircuitComponent>) => onUpdate(component.id, changes, editSession.current);
+
   const getUnit = () => {
     switch(component.type) {
       case 'resistor': return 'Ω';
       case 'voltage': return 'V';
+      case 'current': return 'A';
       case 'capacitor': return 'F';
       case 'inductor': return 'H';
-      case 'diode': return 'V';
+      case 'vcvs': return 'V/V';
+      case 'vccs': return 'S';
+      case 'ccvs': return 'Ω';
+      case 'cccs': return 'A/A';
       default: return '';
     }
   };
 
   const getStep = () => {
     switch(component.type) {
-      case 'diode': return 0.1;
       case 'capacitor': return 0.000001;
       case 'inductor': return 0.001;
+      case 'current': return 0.001;
+      case 'vccs': return 0.001;
       default: return 1;
     }
   };
 
   return (
-    <div className="properties-panel">
+    <div className="properties-panel" onFocus={startEditSession} onBlur={startEditSession}>
       <h3>Component Properties</h3>
       <div className="property-row">
         <label>Type:</label>
         <div className="property-value">{component.type === 'subcircuit' ? `Subcircuit: ${component.subcircuitId}` : component.type}</div>
       </div>
-      {/* Only show value input for non-subcircuit types */}
-      {component.type !== 'subcircuit' && (
+      {/* Only show value input for types described by a single value */}
+      {!['subcircuit', 'diode', 'transistor', 'bulb', 'spst', 'spdt', 'ground', 'label', 'rail'].includes(component.type) && (
         <div className="property-row">
-          <label>Value:</label>
+          <label>{component.type in controlDescriptions ? 'Gain:' : component.waveform ? 'DC value:' : 'Value:'}</label>
           <input
             type="number"
             value={component.value}
-            onChange={(e) => onUpdate(component.id, parseFloat(e.target.value) || 0)}
+            onChange={(e) => update({ value: parseFloat(e.target.value) || 0 })}
             step={getStep()}
           />
           <span className="unit">{getUnit()}</span>
         </div>
       )}
+      {/* Controlled sources are driven through their C+ and C− pins, wired to what they sense */}
+      {component.type in controlDescriptions && <p className="hint">{controlDescriptions[component.type]}</p>}
+      {/* Spread of the value for the tolerance analyses; 0% keeps the part exact */}
+      {hasSweepableValue(component) && (
+        <>
+          <div className="property-row">
+            <label>Tolerance:</label>
+            <input
+              type="number"
+              value={component.tolerance?.percent ?? 0}
+              onChange={(e) => update({
+                tolerance: { distribution: 'uniform', ...component.tolerance, percent: Math.max(0, parseFloat(e.target.value) || 0) },
+              })}
+              step={1}
+            />
+            <span className="unit">%</span>
+          </div>
+          <div className="property-row">
+            <label>Distribution:</label>
+            <select
+              value={component.tolerance?.distribution ?? 'uniform'}
+              onChange={(e) => update({
+                tolerance: { percent: 0, ...component.tolerance, distribution: e.target.value as Tolerance['distribution'] },
+              })}
+            >
+              <option value="uniform">Uniform</option>
+              <option value="gaussian">Gaussian (3σ)</option>
+            </select>
+          </div>
+        </>
+      )}
+      {/* Wires carrying the same label (within one level) or rail (anywhere) are one net; a cleared
+          name is removed rather than saved empty */}
+      {(component.type === 'label' || component.type === 'rail') && (
+        <div className="property-row">
+          <label>Net name:</label>
+          <input
+            type="text"
+            value={component.netName ?? ''}
+            onChange={(e) => update({ netName: e.target.value || undefined })}
+          />
+        </div>
+      )}
+      {/* AC stimulus used by the AC frequency sweep; leave magnitude at 0 to short a voltage source
+          or open a current source */}
+      {(component.type === 'voltage' || component.type === 'current') && (
+        <>
+          <div className="property-row">
+            <label>AC magnitude:</label>
+            <input
+              type="number"
+              value={component.acMagnitude ?? 0}
+              onChange={(e) => update({ acMagnitude: parseFloat(e.target.value) || 0 })}
+              step={0.1}
+            />
+            <span className="unit">{component.type === 'current' ? 'A' : 'V'}</span>
+          </div>
+          <div className="property-row">
+            <label>AC phase:</label>
+            <input
+              type="number"
+              value={component.acPhase ?? 0}
+              onChange={(e) => update({ acPhase: parseFloat(e.target.value) || 0 })}
+              step={15}
+            />
+            <span className="unit">°</span>
+          </div>
+        </>
+      )}
+      {/* Transient waveform; DC analyses keep using the value above */}
+      {(component.type === 'voltage' || component.type === 'current') && (
+        <WaveformEditor
+          key={component.id}
+          waveform={component.waveform}
+          unit={component.type === 'current' ? 'A' : 'V'}
+          dcValue={component.value}
+          onChange={(waveform) => update({ waveform })}
+        />
+      )}
+      {/* Switch state for DC analyses and t=0, flipped at each toggle time of a transient */}
+      {(component.type === 'spst' || component.type === 'spdt') && (
+        <>
+          <div className="property-row">
+            <label>State:</label>
+            <select
+              value={switchModelOf(component).closed ? 'closed' : 'open'}
+              onChange={(e) => update({
+                switchModel: { ...component.switchModel, closed: e.target.value === 'closed' },
+              })}
+            >
+              <option value="open">{component.type === 'spdt' ? 'Open (COM to NC)' : 'Open'}</option>
+              <option value="closed">{component.type === 'spdt' ? 'Closed (COM to NO)' : 'Closed'}</option>
+            </select>
+          </div>
+          <div className="property-row">
+            <label>Toggle at:</label>
+            <input
+              type="text"
+              // Remounted whenever the stored times change, so undo shows through
+              key={switchModelOf(component).toggleTimes.join(',')}
+              defaultValue={switchModelOf(component).toggleTimes.map(formatSpiceNumber).join(', ')}
+              placeholder="e.g. 1m, 2m"
+              onBlur={(e) => {
+                const toggleTimes = parseToggleTimes(e.target.value);
+                if (toggleTimes) update({ switchModel: { ...component.switchModel, toggleTimes } });
+              }}
+            />
+            <span className="unit">s</span>
+          </div>
+          {switchFields.map(({ key, label, unit, step }) => (
+            <div className="property-row" key={key}>
+              <label>{label}:</label>
+              <input
+                type="number"
+                value={switchModelOf(component)[key]}
+                onChange={(e) => update({
+                  switchModel: { ...component.switchModel, [key]: parseFloat(e.target.value) || 0 },
+                })}
+                step={step}
+              />
+              <span className="unit">{unit}</span>
+            </div>
+          ))}
+          <p className="hint">Double-click the switch on the canvas to flip it.</p>
+        </>
+      )}
+      {/* Shockley model parameters; unset fields use the simulator defaults */}
+      {component.type === 'diode' && diodeFields.map(({ key, label, unit, step }) => (
+        <div className="property-row" key={key}>
+          <label>{label}:</label>
+          <input
+            type="number"
+            value={component.diodeModel?.[key] ?? DEFAULT_DIODE_MODEL[key]}
+            onChange={(e) => update({
+              diodeModel: { ...component.diodeModel, [key]: parseFloat(e.target.value) || 0 },
+            })}
+            step={step}
+          />
+          <span className="unit">{unit}</span>
+        </div>
+      ))}
+      {/* The bulb glows with the power it dissipates and burns out when well above its rating */}
+      {component.type === 'bulb' && bulbFields.map(({ key, label, unit, step }) => (
+        <div className="property-row" key={key}>
+          <label>{label}:</label>
+          <input
+            type="number"
+            value={component.bulbModel?.[key] ?? DEFAULT_BULB_MODEL[key]}
+            onChange={(e) => update({
+              bulbModel: { ...component.bulbModel, [key]: parseFloat(e.target.value) || 0 },
+            })}
+            step={step}
+          />
+          <span className="unit">{unit}</span>
+        </div>
+      ))}
+      {/* Ebers-Moll parameters; terminals are collector, base, emitter */}
+      {component.type === 'transistor' && (
+        <>
+          <div className="property-row">
+            <label>Polarity:</label>
+            <select
+              value={component.bjtModel?.polarity ?? DEFAULT_BJT_MODEL.polarity}
+              onChange={(e) => update({
+                bjtModel: { ...component.bjtModel, polarity: e.target.value as BjtModel['polarity'] },
+              })}
+            >
+              <option value="npn">NPN</option>
+              <option value="pnp">PNP</option>
+            </select>
+          </div>
+          {bjtFields.map(({ key, label, unit, step }) => (
+            <div className="property-row" key={key}>
+              <label>{label}:</label>
+              <input
+                type="number"
+                value={component.bjtModel?.[key] ?? DEFAULT_BJT_MODEL[key]}
+                onChange={(e) => update({
+                  bjtModel: { ...component.bjtModel, [key]: parseFloat(e.target.value) || 0 },
+                })}
+                step={step}
+              />
+              <span className="unit">{unit}</span>
+            </div>
+          ))}
+        </>
+      )}
       {/* You could add more properties here for subcircuits if needed,
           e.g., a list of its exposed terminals. */}
     </div>
@@ -0,0 +1,36 @@
+// src/components/StatusBar.tsx
+import React from 'react';
+import { OperatingPoint } from '../simulation/simulator';
+import '../styles.css';
+
+interface StatusBarProps {
+  simulation: OperatingPoint | null; // Null until the first run after loading
+  errorComponentId?: string; // Top-level component the error is about, highlighted on the canvas
+  onSelectComponent: (id: string) => void;
+}
+
+// Outcome of the live DC simulation below the canvas
+const StatusBar: React.FC<StatusBarProps> = ({ simulation, errorComponentId, onSelectComponent }) => {
+  if (!simulation) return <div className="status-bar">Simulating…</div>;
+
+  if (simulation.error) {
+    return (
+      <div className="status-bar error">
+        <span>{simulation.error}</span>
+        {errorComponentId && <button onClick={() => onSelectComponent(errorComponentId)}>Select component</button>}
+      </div>
+    );
+  }
+
+  const nodeCount = Object.keys(simulation.nodeVoltages).length;
+  if (nodeCount === 0) return <div className="status-bar">Nothing to simulate yet.</div>;
+  return (
+    <div className="status-bar">
+      DC operating point: {nodeCount} node{nodeCount === 1 ? '' : 's'}
+      {simulation.iterations && simulation.iterations > 1 ? `, converged in ${simulation.iterations} iterations` : ''}.
+      Hover a wire or component for its values.
+    </div>
+  );
+};
+
+export default StatusBar;
@@ -0,0 +1,116 @@
+// src/components/SubcircuitEditor.tsx
+import React, { useState, useEffect } from 'react';
+import { PortProposal, PortSide, layoutPorts } from '../subcircuits';
+import '../styles.css';
+
+interface SubcircuitEditorProps {
+  selectionCount: number;
+  proposedPorts: PortProposal[]; // Recomputed by App whenever the selection changes
+  onCreate: (name: string, ports: PortProposal[]) => void;
+  onCancel: () => void;
+}
+
+const sides: { value: PortSide; label: string }[] = [
+  { value: 'left', label: 'Left (input)' },
+  { value: 'top', label: 'Top (input)' },
+  { value: 'right', label: 'Right (output)' },
+  { value: 'bottom', label: 'Bottom (output)' },
+];
+
+const PREVIEW_MARGIN = 40;
+
+const SubcircuitEditor: React.FC<SubcircuitEditorProps> = ({
+  selectionCount,
+  proposedPorts,
+  onCreate,
+  onCancel,
+}) => {
+  const [name, setName] = useState('');
+  const [ports, setPorts] = useState<PortProposal[]>(proposedPorts);
+
+  // A new selection brings a new set of boundary wires, so start over from the proposal
+  useEffect(() => {
+    setPorts(proposedPorts);
+  }, [proposedPorts]);
+
+  const updatePort = (index: number, changes: Partial<PortProposal>) => {
+    setPorts(prev => prev.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const movePort = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= ports.length) return;
+    setPorts(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const layout = layoutPorts(ports);
+  const canCreate = selectionCount > 0 && name.trim() !== '' && ports.every(p => p.name.trim() !== '');
+
+  return (
+    <div className="properties-panel">
+      <h3>Create Subcircuit</h3>
+      <p className="hint">
+        Click components or drag a box around them. Wires leaving the selection become ports.
+      </p>
+      <div className="property-row">
+        <label>Selected:</label>
+        <div className="property-value">{selectionCount} component{selectionCount === 1 ? '' : 's'}</div>
+      </div>
+      <div className="property-row">
+        <label>Name:</label>
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Voltage divider" />
+      </div>
+
+      <h4>Ports</h4>
+      {ports.length === 0 && <p className="hint">No wires cross the selection boundary.</p>}
+      {ports.map((port, index) => (
+        <div className="port-row" key={`${port.binding.componentId}_${port.binding.terminal}`}>
+          <input type="text" value={port.name} onChange={(e) => updatePort(index, { name: e.target.value })} />
+          <select value={port.side} onChange={(e) => updatePort(index, { side: e.target.value as PortSide })}>
+            {sides.map(side => (
+              <option key={side.value} value={side.value}>{side.label}</option>
+            ))}
+          </select>
+          <button onClick={() => movePort(index, -1)} disabled={index === 0} title="Move up">▲</button>
+          <button onClick={() => movePort(index, 1)} disabled={index === ports.length - 1} title="Move down">▼</button>
+        </div>
+      ))}
+
+      {/* Symbol preview with the ports where the instance will show them */}
+      <svg
+        width={layout.width + PREVIEW_MARGIN * 2}
+        height={layout.height + PREVIEW_MARGIN * 2}
+        className="subcircuit-preview"
+      >
+        <g transform={`translate(${PREVIEW_MARGIN}, ${PREVIEW_MARGIN})`}>
+          <rect x={0} y={0} width={layout.width} height={layout.height} fill="lightblue" stroke="black" strokeWidth="2" rx="5" ry="5" />
+          <text x={layout.width / 2} y={layout.height / 2} textAnchor="middle" fontSize="12">{name || 'Subcircuit'}</text>
+          {[...layout.inputs, ...layout.outputs].map((term, index) => (
+            <g key={term.id}>
+              <circle cx={term.x} cy={term.y} r={3} fill="red" stroke="black" strokeWidth="1" />
+              <text
+                x={term.x === 0 ? term.x - 5 : term.x === layout.width ? term.x + 5 : term.x}
+                y={term.y === 0 ? term.y - 6 : term.y === layout.height ? term.y + 14 : term.y + 4}
+                textAnchor={term.x === 0 ? 'end' : term.x === layout.width ? 'start' : 'middle'}
+                fontSize="9"
+              >
+                {index + 1}
+              </text>
+            </g>
+          ))}
+        </g>
+      </svg>
+
+      <button onClick={() => onCreate(name.trim(), ports)} disabled={!canCreate}>
+        Create
+      </button>
+      <button onClick={onCancel}>Cancel</button>
+    </div>
+  );
+};
+
+export default SubcircuitEditor;
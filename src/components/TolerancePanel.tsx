@@ -0,0 +1,197 @@
+// src/components/TolerancePanel.tsx
+import React, { useState, useMemo } from 'react';
+import { CircuitComponent, Wire, SubCircuit, Probe } from '../types/types';
+import { simulateCircuit, OperatingPoint } from '../simulation/simulator';
+import { monteCarlo, worstCase, statistics, histogram, toleranceOf, ToleranceRuns, Histogram } from '../simulation/montecarlo';
+import { designatorsOf } from '../spice/exporter';
+import { probeLabel, probeReading } from '../probes';
+import { formatQuantity } from '../overlay';
+import '../styles.css';
+
+interface TolerancePanelProps {
+  components: CircuitComponent[];
+  wires: Wire[];
+  subcircuits: SubCircuit[];
+  probes: Probe[]; // The quantities to report, in the same order as the plot panel's traces
+}
+
+type Mode = 'montecarlo' | 'worstcase';
+
+// Acceptable range of a probe's reading; a missing limit is not checked
+interface Spec {
+  low?: number;
+  high?: number;
+}
+
+const HISTOGRAM_BINS = 20;
+const HISTOGRAM_WIDTH = 300;
+const HISTOGRAM_HEIGHT = 70;
+
+// Spread of the DC operating point over component tolerances, for each probe
+const TolerancePanel: React.FC<TolerancePanelProps> = ({ components, wires, subcircuits, probes }) => {
+  const [mode, setMode] = useState<Mode>('montecarlo');
+  const [runCount, setRunCount] = useState(200);
+  const [seed, setSeed] = useState(1);
+  // The last run, with the circuit it ran on so edits made since can be flagged
+  const [run, setRun] = useState<{
+    mode: Mode;
+    analysis: ToleranceRuns<OperatingPoint>;
+    circuit: [CircuitComponent[], Wire[], SubCircuit[]];
+  } | null>(null);
+  const [specs, setSpecs] = useState<{ [probeId: string]: Spec }>({});
+
+  const tolerancedCount = components.filter(comp => toleranceOf(comp) > 0).length;
+
+  const handleRun = () => {
+    const analyse = (variant: CircuitComponent[]) => simulateCircuit(variant, wires, subcircuits);
+    const analysis = mode === 'montecarlo'
+      ? monteCarlo(components, { runs: runCount, seed }, analyse)
+      : worstCase(components, analyse);
+    setRun({ mode, analysis, circuit: [components, wires, subcircuits] });
+  };
+
+  // Readings of every probe in every run; runs that did not solve read NaN and are left out
+  const rows = useMemo(() => {
+    if (!run) return [];
+    const wireNodes = run.analysis.nominal.wireNodes ?? {};
+    return probes.map(probe => {
+      const samples = run.analysis.runs.map(r => probeReading(probe, r.result));
+      return {
+        probe,
+        label: probeLabel(probe, run.circuit[0], wireNodes),
+        unit: probe.kind === 'voltage' ? 'V' : 'A',
+        nominal: probeReading(probe, run.analysis.nominal),
+        samples,
+        stats: statistics(samples),
+        histogram: histogram(samples, HISTOGRAM_BINS),
+      };
+    });
+  }, [run, probes]);
+  const stale = run !== null && (run.circuit[0] !== components || run.circuit[1] !== wires || run.circuit[2] !== subcircuits);
+  const failedRuns = run ? run.analysis.runs.filter(r => r.result.error).length : 0;
+
+  // Which end of its tolerance each part was at, e.g. "R1 +5%, R2 −5%"
+  const cornerLabel = (values: { [componentId: string]: number }) => {
+    const [circuitComponents] = run!.circuit;
+    const designators = designatorsOf(circuitComponents);
+    return Object.entries(values).map(([id, value]) => {
+      const component = circuitComponents.find(c => c.id === id)!;
+      return `${designators.get(id)} ${value > component.value ? '+' : '−'}${component.tolerance!.percent}%`;
+    }).join(', ');
+  };
+
+  const updateSpec = (probeId: string, key: keyof Spec, text: string) => {
+    const value = text.trim() === '' ? undefined : Number(text);
+    setSpecs(prev => ({ ...prev, [probeId]: { ...prev[probeId], [key]: Number.isFinite(value) ? value : undefined } }));
+  };
+
+  return (
+    <div className="tolerance-panel">
+      <h3>Tolerance Analysis</h3>
+      <div className="property-row">
+        <label>Mode:</label>
+        <select value={mode} onChange={(e) => setMode(e.target.value as Mode)}>
+          <option value="montecarlo">Monte Carlo</option>
+          <option value="worstcase">Worst case (corners)</option>
+        </select>
+      </div>
+      {mode === 'montecarlo' && (
+        <>
+          <div className="property-row">
+            <label>Runs:</label>
+            <input type="number" value={runCount} step={100} onChange={(e) => setRunCount(parseInt(e.target.value, 10) || 0)} />
+          </div>
+          <div className="property-row">
+            <label>Seed:</label>
+            <input type="number" value={seed} step={1} onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)} />
+          </div>
+        </>
+      )}
+      <button onClick={handleRun}>Run</button>
+
+      {tolerancedCount === 0 && <p className="hint">Give components a tolerance in the properties panel.</p>}
+      {probes.length === 0 && <p className="hint">Use the Probe tool to choose the voltages and currents to report.</p>}
+      {run?.analysis.error && <p className="plot-error">{run.analysis.error}</p>}
+      {stale && <p className="hint">The circuit has changed since this run.</p>}
+      {failedRuns > 0 && <p className="plot-error">{failedRuns} of {run!.analysis.runs.length} runs did not solve and are left out.</p>}
+
+      {run && !run.analysis.error && rows.map(row => {
+        const spec = specs[row.probe.id] ?? {};
+        const inSpec = (x: number) => (spec.low === undefined || x >= spec.low) && (spec.high === undefined || x <= spec.high);
+        const finite = row.samples.filter(Number.isFinite);
+        const passing = finite.filter(inSpec).length;
+        const hasSpec = spec.low !== undefined || spec.high !== undefined;
+        const minIndex = row.samples.indexOf(row.stats?.min ?? NaN);
+        const maxIndex = row.samples.indexOf(row.stats?.max ?? NaN);
+        return (
+          <div className="tolerance-result" key={row.probe.id}>
+            <h4>{row.label}</h4>
+            <table className="plot-readout">
+              <tbody>
+                <tr><td>Nominal</td><td>{formatQuantity(row.nominal, row.unit)}</td></tr>
+                {row.stats && (
+                  <>
+                    <tr><td>Min</td><td>{formatQuantity(row.stats.min, row.unit)}</td></tr>
+                    <tr><td>Max</td><td>{formatQuantity(row.stats.max, row.unit)}</td></tr>
+                    {run.mode === 'montecarlo' ? (
+                      <>
+                        <tr><td>Mean</td><td>{formatQuantity(row.stats.mean, row.unit)}</td></tr>
+                        <tr><td>σ</td><td>{formatQuantity(row.stats.sigma, row.unit)}</td></tr>
+                      </>
+                    ) : (
+                      <>
+                        <tr><td>Min at</td><td>{cornerLabel(run.analysis.runs[minIndex].values)}</td></tr>
+                        <tr><td>Max at</td><td>{cornerLabel(run.analysis.runs[maxIndex].values)}</td></tr>
+                      </>
+                    )}
+                  </>
+                )}
+              </tbody>
+            </table>
+            <div className="property-row">
+              <label>Spec:</label>
+              <input type="number" placeholder="min" onChange={(e) => updateSpec(row.probe.id, 'low', e.target.value)} />
+              <input type="number" placeholder="max" onChange={(e) => updateSpec(row.probe.id, 'high', e.target.value)} />
+              <span className="unit">{row.unit}</span>
+            </div>
+            {hasSpec && finite.length > 0 && (
+              <p className={passing === finite.length ? 'hint' : 'plot-error'}>
+                {run.mode === 'montecarlo'
+                  ? `${((100 * passing) / finite.length).toFixed(1)}% of runs in spec (${passing} of ${finite.length}).`
+                  : passing === finite.length ? 'In spec at every corner.' : `Out of spec at ${finite.length - passing} of ${finite.length} corners.`}
+              </p>
+            )}
+            {run.mode === 'montecarlo' && row.histogram && <HistogramPlot histogram={row.histogram} spec={spec} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Bars of the sample counts, with the spec limits as red lines
+const HistogramPlot: React.FC<{ histogram: Histogram; spec: Spec }> = ({ histogram: { start, binWidth, counts }, spec }) => {
+  const end = start + binWidth * counts.length;
+  const tallest = Math.max(...counts);
+  const barWidth = HISTOGRAM_WIDTH / counts.length;
+  const toX = (value: number) => ((value - start) / (end - start)) * HISTOGRAM_WIDTH;
+  return (
+    <svg className="histogram" viewBox={`0 0 ${HISTOGRAM_WIDTH} ${HISTOGRAM_HEIGHT}`}>
+      {counts.map((count, i) => (
+        <rect
+          key={i}
+          x={i * barWidth}
+          y={HISTOGRAM_HEIGHT - (count / tallest) * HISTOGRAM_HEIGHT}
+          width={Math.max(1, barWidth - 1)}
+          height={(count / tallest) * HISTOGRAM_HEIGHT}
+          fill="#2980b9"
+        />
+      ))}
+      {[spec.low, spec.high].map((limit, i) => limit !== undefined && limit >= start && limit <= end && (
+        <line key={i} x1={toX(limit)} y1={0} x2={toX(limit)} y2={HISTOGRAM_HEIGHT} stroke="#c0392b" strokeWidth="2" />
+      ))}
+    </svg>
+  );
+};
+
+export default TolerancePanel;
@@ -1,5 +1,5 @@
 // src/components/Toolbar.tsx
-import React from 'react';
+import React, { useRef } from 'react';
 import { ComponentType, ToolMode, SubCircuit } from '../types/types'; // Import SubCircuit
 
 interface ToolbarProps {
@@ -11,6 +11,18 @@ interface ToolbarProps {
   subcircuits: SubCircuit[];
   onStartDragComponent: (type: ComponentType, subcircuitId?: string) => void; // New prop for drag start
   onCreateSubcircuit: () => void; // New prop for creating subcircuits
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
+  onExportSpice: () => void;
+  onImportSpice: (file: File) => void;
+  plotOpen: boolean; // Whether the waveform panel is shown
+  onTogglePlot: () => void;
+  toleranceOpen: boolean; // Whether the Monte Carlo / worst-case panel is shown
+  onToggleTolerance: () => void;
+  undoLabel: string | null; // Label of the step undo would revert, null when there is none
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -21,11 +33,30 @@ const Toolbar: React.FC<ToolbarProps> = ({
   subcircuits, // Added prop
   onStartDragComponent, // Added prop
   onCreateSubcircuit, // Added prop
+  onSaveProject,
+  onOpenProject,
+  onExportSpice,
+  onImportSpice,
+  plotOpen,
+  onTogglePlot,
+  toleranceOpen,
+  onToggleTolerance,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const spiceInputRef = useRef<HTMLInputElement>(null);
+
   const basicComponents: ComponentType[] = [
     'resistor', 'capacitor', 'inductor',
-    'voltage', 'diode', 'transistor', 'bulb'
+    'voltage', 'current', 'diode', 'transistor', 'bulb',
+    'spst', 'spdt'
   ];
+  const controlledSources: ComponentType[] = ['vcvs', 'vccs', 'ccvs', 'cccs'];
+  const abbreviated: ComponentType[] = [...controlledSources, 'spst', 'spdt']; // Labelled in capitals
+  const netSymbols: ComponentType[] = ['ground', 'label', 'rail'];
 
   const handleDragStart = (e: React.DragEvent, type: ComponentType, subcircuitId?: string) => {
     // Set the data that will be transferred during the drag
@@ -34,8 +65,63 @@ const Toolbar: React.FC<ToolbarProps> = ({
     onStartDragComponent(type, subcircuitId); // Notify parent App.tsx
   };
 
+  const renderComponentButton = (type: ComponentType) => (
+    <button
+      key={type}
+      className={selectedComponentType === type ? 'active' : ''}
+      onClick={() => {
+        setSelectedTool('add');
+        setSelectedComponentType(type);
+      }}
+      draggable="true" // Make buttons draggable
+      onDragStart={(e) => handleDragStart(e, type)} // Handle drag start
+    >
+      {abbreviated.includes(type) ? type.toUpperCase() : type.charAt(0).toUpperCase() + type.slice(1)}
+    </button>
+  );
+
   return (
     <div className="toolbar">
+      <div className="tool-section">
+        <h3>Project</h3>
+        <button onClick={() => fileInputRef.current?.click()}>Open...</button>
+        <button onClick={onSaveProject}>Save</button>
+        <button onClick={() => spiceInputRef.current?.click()}>Import SPICE...</button>
+        <button onClick={onExportSpice}>Export SPICE</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onOpenProject(file);
+            e.target.value = ''; // Allow reopening the same file
+          }}
+        />
+        <input
+          ref={spiceInputRef}
+          type="file"
+          accept=".cir,.net,.sp,.spi,.txt"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportSpice(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="tool-section">
+        <h3>Edit</h3>
+        <button onClick={onUndo} disabled={!undoLabel} title="Ctrl+Z">
+          {undoLabel ? `Undo ${undoLabel}` : 'Undo'}
+        </button>
+        <button onClick={onRedo} disabled={!redoLabel} title="Ctrl+Shift+Z">
+          {redoLabel ? `Redo ${redoLabel}` : 'Redo'}
+        </button>
+      </div>
+
       <div className="tool-section">
         <h3>Tools</h3>
         <button
@@ -50,6 +136,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           Wire
         </button>
+        <button
+          className={selectedTool === 'probe' ? 'active' : ''}
+          onClick={() => setSelectedTool('probe')}
+          title="Click a wire for a voltage probe or a component for a current probe; click a probe to remove it"
+        >
+          Probe
+        </button>
         <button
           className={selectedTool === 'subcircuit_create' ? 'active' : ''}
           onClick={onCreateSubcircuit} // Calls the new handler
@@ -58,22 +151,29 @@ const Toolbar: React.FC<ToolbarProps> = ({
         </button>
       </div>
 
+      <div className="tool-section">
+        <h3>Analysis</h3>
+        <button className={plotOpen ? 'active' : ''} onClick={onTogglePlot}>
+          Waveforms
+        </button>
+        <button className={toleranceOpen ? 'active' : ''} onClick={onToggleTolerance}>
+          Tolerance
+        </button>
+      </div>
+
       <div className="tool-section">
         <h3>Basic Components</h3>
-        {basicComponents.map(type => (
-          <button
-            key={type}
-            className={selectedComponentType === type ? 'active' : ''}
-            onClick={() => {
-              setSelectedTool('add');
-              setSelectedComponentType(type);
-            }}
-            draggable="true" // Make buttons draggable
-            onDragStart={(e) => handleDragStart(e, type)} // Handle drag start
-          >
-            {type.charAt(0).toUpperCase() + type.slice(1)}
-          </button>
-        ))}
+        {basicComponents.map(renderComponentButton)}
+      </div>
+
+      <div className="tool-section">
+        <h3>Controlled Sources</h3>
+        {controlledSources.map(renderComponentButton)}
+      </div>
+
+      <div className="tool-section">
+        <h3>Nets</h3>
+        {netSymbols.map(renderComponentButton)}
       </div>
 
       {/* New section for Subcircuits */}
@@ -0,0 +1,164 @@
+// src/components/WaveformEditor.tsx
+import React, { useRef, useState } from 'react';
+import { SourceWaveform } from '../types/types';
+import { waveformValue, waveformSpan, parsePwlTable, formatPwlTable } from '../simulation/waveforms';
+import { formatQuantity } from '../overlay';
+import '../styles.css';
+
+interface WaveformEditorProps {
+  waveform?: SourceWaveform;
+  unit: string; // 'V' or 'A'
+  dcValue: number; // level the new waveforms start from
+  onChange: (waveform: SourceWaveform | undefined) => void;
+}
+
+type Kind = SourceWaveform['kind'] | 'dc';
+
+type Field<K extends SourceWaveform['kind']> = {
+  key: Exclude<keyof Extract<SourceWaveform, { kind: K }>, 'kind'>;
+  label: string;
+  unit: string | null; // null for the source's own unit
+  step: number;
+};
+
+const sinFields: Field<'sin'>[] = [
+  { key: 'offset', label: 'Offset', unit: null, step: 0.1 },
+  { key: 'amplitude', label: 'Amplitude', unit: null, step: 0.1 },
+  { key: 'frequency', label: 'Frequency', unit: 'Hz', step: 100 },
+  { key: 'phase', label: 'Phase', unit: '°', step: 15 },
+  { key: 'delay', label: 'Delay', unit: 's', step: 0.0001 },
+];
+
+const pulseFields: Field<'pulse'>[] = [
+  { key: 'initial', label: 'Initial', unit: null, step: 0.1 },
+  { key: 'pulsed', label: 'Pulsed', unit: null, step: 0.1 },
+  { key: 'delay', label: 'Delay', unit: 's', step: 0.0001 },
+  { key: 'rise', label: 'Rise time', unit: 's', step: 0.000001 },
+  { key: 'fall', label: 'Fall time', unit: 's', step: 0.000001 },
+  { key: 'width', label: 'Width', unit: 's', step: 0.0001 },
+  { key: 'period', label: 'Period', unit: 's', step: 0.0001 },
+];
+
+// A kilohertz-ish starting point for each kind, around the source's DC value
+function initialWaveform(kind: SourceWaveform['kind'], dcValue: number): SourceWaveform {
+  const level = dcValue || 1;
+  switch (kind) {
+    case 'sin':
+      return { kind, offset: dcValue, amplitude: 1, frequency: 1000, phase: 0, delay: 0 };
+    case 'pulse':
+      return { kind, initial: 0, pulsed: level, delay: 0, rise: 1e-6, fall: 1e-6, width: 0.5e-3, period: 1e-3 };
+    case 'pwl':
+      return { kind, points: [{ time: 0, value: 0 }, { time: 1e-3, value: level }] };
+  }
+}
+
+const PREVIEW_WIDTH = 220;
+const PREVIEW_HEIGHT = 60;
+const PREVIEW_SAMPLES = 200;
+
+// Transient waveform of an independent source: the kind, its parameters and a preview
+const WaveformEditor: React.FC<WaveformEditorProps> = ({ waveform, unit, dcValue, onChange }) => {
+  // The PWL table is edited as text and only applied while it parses
+  const [pwlText, setPwlText] = useState(waveform?.kind === 'pwl' ? formatPwlTable(waveform.points) : '');
+  const [pwlError, setPwlError] = useState<string | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const changeKind = (kind: Kind) => {
+    if (kind === 'dc') return onChange(undefined);
+    const next = initialWaveform(kind, dcValue);
+    if (next.kind === 'pwl') {
+      setPwlText(formatPwlTable(next.points));
+      setPwlError(null);
+    }
+    onChange(next);
+  };
+
+  const changePwl = (text: string) => {
+    setPwlText(text);
+    const points = parsePwlTable(text);
+    if (typeof points === 'string') {
+      setPwlError(points);
+    } else {
+      setPwlError(null);
+      onChange({ kind: 'pwl', points });
+    }
+  };
+
+  const renderFields = <K extends 'sin' | 'pulse'>(fields: Field<K>[], current: Extract<SourceWaveform, { kind: K }>) =>
+    fields.map(field => (
+      <div className="property-row" key={String(field.key)}>
+        <label>{field.label}:</label>
+        <input
+          type="number"
+          value={current[field.key] as number}
+          onChange={(e) => onChange({ ...current, [field.key]: parseFloat(e.target.value) || 0 })}
+          step={field.step}
+        />
+        <span className="unit">{field.unit ?? unit}</span>
+      </div>
+    ));
+
+  return (
+    <>
+      <div className="property-row">
+        <label>Waveform:</label>
+        <select value={waveform?.kind ?? 'dc'} onChange={(e) => changeKind(e.target.value as Kind)}>
+          <option value="dc">DC only</option>
+          <option value="sin">Sine (SIN)</option>
+          <option value="pulse">Pulse (PULSE)</option>
+          <option value="pwl">Piecewise linear (PWL)</option>
+        </select>
+      </div>
+      {waveform?.kind === 'sin' && renderFields(sinFields, waveform)}
+      {waveform?.kind === 'pulse' && renderFields(pulseFields, waveform)}
+      {waveform?.kind === 'pwl' && (
+        <>
+          <p className="hint">One time (s) and value ({unit}) per line; paste from a spreadsheet or load a CSV file.</p>
+          <textarea className="pwl-table" rows={5} value={pwlText} onChange={(e) => changePwl(e.target.value)} />
+          {pwlError && <p className="plot-error">{pwlError}</p>}
+          <button onClick={() => csvInputRef.current?.click()}>Load CSV...</button>
+          <input
+            ref={csvInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv"
+            style={{ display: 'none' }}
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = ''; // Allow loading the same file again
+              if (file) changePwl(await file.text());
+            }}
+          />
+        </>
+      )}
+      {waveform && <WaveformPreview waveform={waveform} unit={unit} />}
+    </>
+  );
+};
+
+// The waveform over waveformSpan(), with its extreme values and the time shown
+const WaveformPreview: React.FC<{ waveform: SourceWaveform; unit: string }> = ({ waveform, unit }) => {
+  const span = waveformSpan(waveform);
+  const times = Array.from({ length: PREVIEW_SAMPLES + 1 }, (_, i) => (i * span) / PREVIEW_SAMPLES);
+  // PWL corners are kept exactly rather than left to the sampling
+  if (waveform.kind === 'pwl') times.push(...waveform.points.map(point => point.time).filter(t => t <= span));
+  times.sort((a, b) => a - b);
+  const values = times.map(t => waveformValue(waveform, t));
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const range = high - low || 1;
+  const points = times.map((t, i) =>
+    `${(t / span) * PREVIEW_WIDTH},${PREVIEW_HEIGHT - 4 - ((values[i] - low) / range) * (PREVIEW_HEIGHT - 8)}`
+  ).join(' ');
+  return (
+    <div className="waveform-preview">
+      <svg viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}>
+        <polyline points={points} fill="none" stroke="#2980b9" strokeWidth="1.5" />
+      </svg>
+      <div className="hint">
+        {formatQuantity(low, unit)} to {formatQuantity(high, unit)} over {formatQuantity(span, 's')}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformEditor;
@@ -0,0 +1,104 @@
+// src/history.ts
+// Undo/redo for schematic edits. Every mutation of the circuit goes through a Command so it can
+// be recorded; only the document below is versioned. Selection, tool mode, view settings and
+// simulation results live outside it and are never part of the history.
+import { useReducer, useCallback } from 'react';
+import { CircuitComponent, Wire, SubCircuit } from './types/types';
+
+export interface CircuitDocument {
+  components: CircuitComponent[];
+  wires: Wire[];
+  subcircuits: SubCircuit[];
+}
+
+export interface Command {
+  label: string; // Shown as "Undo <label>"
+  apply: (document: CircuitDocument) => CircuitDocument;
+  // Consecutive commands with the same key collapse into one history step, e.g. every
+  // mouse move of one drag gesture or every keystroke in one property field
+  coalesceKey?: string;
+}
+
+export const HISTORY_LIMIT = 100;
+
+interface HistoryEntry {
+  label: string;
+  document: CircuitDocument; // State before the command ran
+}
+
+interface HistoryState {
+  present: CircuitDocument;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  lastCoalesceKey: string | null;
+}
+
+type HistoryAction =
+  | { type: 'execute'; command: Command }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; document: CircuitDocument };
+
+function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'execute': {
+      const { command } = action;
+      const next = command.apply(state.present);
+      if (next === state.present) return state; // Nothing changed, nothing to record
+      if (command.coalesceKey !== undefined && command.coalesceKey === state.lastCoalesceKey) {
+        return { ...state, present: next };
+      }
+      const past = [...state.past, { label: command.label, document: state.present }].slice(-HISTORY_LIMIT);
+      return { present: next, past, future: [], lastCoalesceKey: command.coalesceKey ?? null };
+    }
+    case 'undo': {
+      const entry = state.past[state.past.length - 1];
+      if (!entry) return state;
+      return {
+        present: entry.document,
+        past: state.past.slice(0, -1),
+        future: [{ label: entry.label, document: state.present }, ...state.future],
+        lastCoalesceKey: null,
+      };
+    }
+    case 'redo': {
+      const [entry, ...future] = state.future;
+      if (!entry) return state;
+      return {
+        present: entry.document,
+        past: [...state.past, { label: entry.label, document: state.present }],
+        future,
+        lastCoalesceKey: null,
+      };
+    }
+    case 'reset':
+      return { present: action.document, past: [], future: [], lastCoalesceKey: null };
+  }
+}
+
+export const EMPTY_DOCUMENT: CircuitDocument = { components: [], wires: [], subcircuits: [] };
+
+export function useHistory(initial: CircuitDocument = EMPTY_DOCUMENT) {
+  const [state, dispatch] = useReducer(historyReducer, {
+    present: initial,
+    past: [],
+    future: [],
+    lastCoalesceKey: null,
+  });
+
+  const execute = useCallback((command: Command) => dispatch({ type: 'execute', command }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  // Replaces the document and forgets the history, e.g. after opening a file
+  const reset = useCallback((document: CircuitDocument) => dispatch({ type: 'reset', document }), []);
+
+  return {
+    document: state.present,
+    execute,
+    undo,
+    redo,
+    reset,
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[0]?.label ?? null,
+  };
+}
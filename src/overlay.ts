@@ -0,0 +1,289 @@
+// src/overlay.ts
+// Operating-point results drawn on the schematic: wires coloured by the voltage of their net,
+// current flowing along the wires and the readouts shown when hovering a part or a wire.
+import { CircuitComponent, Wire, WireEnd, SubCircuit, Point } from './types/types';
+import { OperatingPoint } from './simulation/simulator';
+import { PATH_SEPARATOR } from './simulation/mna';
+import { bulbModelOf } from './simulation/devices';
+import { isWireJoint, wireRoute } from './wires';
+import { isNetSymbol, terminalsOf } from './terminals';
+
+// A stretch of wire between two points where current can enter or leave it (pins and joints).
+// `current` flows from the first point to the last; null when the wiring does not determine it.
+export interface WirePiece {
+  wireId: string;
+  points: Point[];
+  current: number | null;
+}
+
+interface Edge {
+  piece: WirePiece;
+  from: string; // vertex keys: pins and joints
+  to: string;
+}
+
+// The top-level component an error is about; errors inside a subcircuit point at its instance
+export const errorComponentOf = (result: OperatingPoint): string | undefined =>
+  result.errorComponentId?.split(PATH_SEPARATOR)[0];
+
+export const wireVoltage = (result: OperatingPoint, wireId: string): number | undefined => {
+  const node = result.wireNodes?.[wireId];
+  return node === undefined ? undefined : result.nodeVoltages[node];
+};
+
+const terminalVoltage = (result: OperatingPoint, componentId: string, terminal: number): number | undefined => {
+  const node = result.terminalNodes?.[componentId]?.[terminal];
+  return node === undefined || node === null ? undefined : result.nodeVoltages[node];
+};
+
+// Green for positive, red for negative and grey at 0 V, saturating at the largest node voltage
+export function voltageColor(voltage: number, result: OperatingPoint): string {
+  const scale = Math.max(...Object.values(result.nodeVoltages).map(Math.abs), 1e-9);
+  const t = Math.min(1, Math.abs(voltage) / scale);
+  const grey = 128;
+  const mix = (target: number) => Math.round(grey + (target - grey) * t);
+  return voltage >= 0 ? `rgb(${mix(0)}, ${mix(170)}, ${mix(0)})` : `rgb(${mix(220)}, ${mix(0)}, ${mix(0)})`;
+}
+
+const PREFIXES: [string, number][] = [
+  ['G', 1e9],
+  ['M', 1e6],
+  ['k', 1e3],
+  ['', 1],
+  ['m', 1e-3],
+  ['µ', 1e-6],
+  ['n', 1e-9],
+  ['p', 1e-12],
+];
+
+// Three significant digits with an SI prefix, e.g. 4.99 mA
+export function formatQuantity(value: number, unit: string): string {
+  const magnitude = Math.abs(value);
+  if (magnitude < 1e-15) return `0 ${unit}`;
+  const [prefix, scale] = PREFIXES.find(([, s]) => magnitude >= s) ?? PREFIXES[PREFIXES.length - 1];
+  return `${Number((value / scale).toPrecision(3))} ${prefix}${unit}`;
+}
+
+// Lines shown when hovering a component: pin voltages for net symbols, transistors and
+// subcircuits, voltage across, current and power for two-terminal parts
+export function componentReadout(component: CircuitComponent, result: OperatingPoint, subcircuits: SubCircuit[]): string[] {
+  const terminals = terminalsOf(component, subcircuits);
+  const voltages = terminals.map((_, terminal) => terminalVoltage(result, component.id, terminal));
+  if (isNetSymbol(component)) {
+    const name = component.type === 'ground' ? 'Ground' : component.netName ?? '';
+    return voltages[0] === undefined ? [name] : [name, formatQuantity(voltages[0], 'V')];
+  }
+  const lines = [component.type === 'subcircuit'
+    ? subcircuits.find(s => s.id === component.subcircuitId)?.name ?? 'Subcircuit'
+    : component.type];
+  if (terminals.length !== 2) {
+    terminals.forEach((terminal, i) => {
+      const voltage = voltages[i];
+      if (voltage !== undefined) lines.push(`${terminal.name}: ${formatQuantity(voltage, 'V')}`);
+    });
+    result.terminalCurrents?.[component.id]?.forEach((current, i) => {
+      lines.push(`I${terminals[i].name.toLowerCase()} = ${formatQuantity(current, 'A')}`);
+    });
+    return lines;
+  }
+  if (voltages[0] !== undefined && voltages[1] !== undefined) {
+    lines.push(`V = ${formatQuantity(voltages[0] - voltages[1], 'V')}`);
+    const current = result.componentCurrents[component.id];
+    if (current !== undefined) {
+      lines.push(`I = ${formatQuantity(current, 'A')}`);
+      lines.push(`P = ${formatQuantity((voltages[0] - voltages[1]) * current, 'W')}`);
+    }
+    if (component.type === 'bulb') {
+      const { brightness, burntOut } = bulbGlow(component, result);
+      lines.push(burntOut ? 'Burnt out' : `Brightness ${Math.round(brightness * 100)}%`);
+    }
+  }
+  return lines;
+}
+
+// Lines shown when hovering a wire at `point`: its net and voltage, and the current in the
+// piece of the wire there
+export function wireReadout(wireId: string, point: Point, pieces: WirePiece[], result: OperatingPoint): string[] {
+  const voltage = wireVoltage(result, wireId);
+  const lines = voltage === undefined ? [] : [`${result.wireNodes![wireId]}: ${formatQuantity(voltage, 'V')}`];
+  const nearest = pieces
+    .filter(piece => piece.wireId === wireId)
+    .map(piece => ({ piece, distance: distanceToRoute(piece.points, point) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const current = nearest?.piece.current;
+  if (current !== undefined && current !== null) lines.push(`I = ${formatQuantity(Math.abs(current), 'A')}`);
+  return lines;
+}
+
+// A bulb dissipating more than this multiple of its rated power is drawn burnt out
+const BURN_OUT_POWER_RATIO = 2;
+
+// How a bulb looks at the operating point: brightness from 0 (dark) to 1 (at or above its
+// rated power), or burnt out when overdriven
+export function bulbGlow(component: CircuitComponent, result: OperatingPoint): { brightness: number; burntOut: boolean } {
+  const v0 = terminalVoltage(result, component.id, 0);
+  const v1 = terminalVoltage(result, component.id, 1);
+  const current = result.componentCurrents[component.id];
+  if (v0 === undefined || v1 === undefined || current === undefined) return { brightness: 0, burntOut: false };
+  const ratio = Math.abs((v0 - v1) * current) / bulbModelOf(component).ratedPower;
+  return { brightness: Math.min(1, ratio), burntOut: ratio > BURN_OUT_POWER_RATIO };
+}
+
+// Current is shown as dots DOT_SPACING apart, moving at a speed (world units per second) that
+// grows with the logarithm of the current so microamps and amps both stay readable. Null when
+// the current is too small to show.
+export const DOT_SPACING = 16;
+
+export function flowSpeed(current: number): number | null {
+  const magnitude = Math.abs(current);
+  if (magnitude < 1e-9) return null;
+  return Math.min(200, Math.max(5, 20 * (1 + Math.log10(magnitude / 1e-6))));
+}
+
+// Current flowing into each terminal of a top-level component, or null when it is not known
+// from the results: subcircuit ports and net symbols pass current on out of sight of the wires
+function terminalCurrent(component: CircuitComponent, terminal: number, result: OperatingPoint): number | null {
+  if (component.type === 'subcircuit' || isNetSymbol(component)) return null;
+  const perTerminal = result.terminalCurrents?.[component.id];
+  if (perTerminal) return perTerminal[terminal] ?? null;
+  const current = result.componentCurrents[component.id] ?? 0; // Parts without a model carry none
+  return terminal === 0 ? current : -current;
+}
+
+// Splits every wire at the joints landing on it and works out the current in each piece with
+// Kirchhoff's current law. Each connected group of pieces is a net as drawn; when it is a tree,
+// the current in a piece is what the pins on one side of it draw, provided all of those are
+// known. Nets drawn with loops are left undetermined.
+export function wirePieces(
+  wires: Wire[],
+  components: CircuitComponent[],
+  subcircuits: SubCircuit[],
+  result: OperatingPoint
+): WirePiece[] {
+  const edges: Edge[] = [];
+  const endVertex = (wire: Wire, end: 'from' | 'to') => {
+    const ref: WireEnd = wire[end];
+    return isWireJoint(ref) ? `joint:${wire.id}:${end}` : `pin:${ref.componentId}_${ref.terminal}`;
+  };
+
+  wires.forEach(wire => {
+    const route = wireRoute(wire, components, subcircuits);
+    if (!route) return;
+    // Points along the route where other wires join, ordered from the `from` end
+    const breaks: { vertex: string; position: number; point: Point }[] = [];
+    wires.forEach(other => {
+      (['from', 'to'] as const).forEach(end => {
+        const ref = other[end];
+        if (!isWireJoint(ref) || ref.wireId !== wire.id) return;
+        breaks.push({ vertex: endVertex(other, end), ...locateOnRoute(route, ref) });
+      });
+    });
+    breaks.sort((a, b) => a.position - b.position);
+
+    let start = { vertex: endVertex(wire, 'from'), position: 0, point: route[0] };
+    const stops = [...breaks, { vertex: endVertex(wire, 'to'), position: routeLength(route), point: route[route.length - 1] }];
+    stops.forEach(stop => {
+      const points = [
+        start.point,
+        ...routeCorners(route).filter(c => c.position > start.position && c.position < stop.position).map(c => c.point),
+        stop.point,
+      ];
+      edges.push({ piece: { wireId: wire.id, points, current: null }, from: start.vertex, to: stop.vertex });
+      start = stop;
+    });
+  });
+
+  // Known current drawn out of the wiring at each pin; joints draw none
+  const componentById = new Map(components.map(c => [c.id, c]));
+  const injection = (vertex: string): number | null => {
+    if (!vertex.startsWith('pin:')) return 0;
+    const key = vertex.slice('pin:'.length);
+    const split = key.lastIndexOf('_');
+    const component = componentById.get(key.slice(0, split));
+    return component ? terminalCurrent(component, Number(key.slice(split + 1)), result) : null;
+  };
+
+  const adjacency = new Map<string, Edge[]>();
+  edges.forEach(edge => [edge.from, edge.to].forEach(vertex => {
+    adjacency.set(vertex, [...(adjacency.get(vertex) ?? []), edge]);
+  }));
+
+  const visited = new Set<string>();
+  adjacency.forEach((_, root) => {
+    if (visited.has(root)) return;
+    // Depth-first order of one net, with the edge leading to each vertex
+    const order: { vertex: string; via: Edge | null }[] = [];
+    const stack: { vertex: string; via: Edge | null }[] = [{ vertex: root, via: null }];
+    const netEdges = new Set<Edge>();
+    visited.add(root);
+    while (stack.length > 0) {
+      const entry = stack.pop()!;
+      order.push(entry);
+      adjacency.get(entry.vertex)!.forEach(edge => {
+        netEdges.add(edge);
+        const next = edge.from === entry.vertex ? edge.to : edge.from;
+        if (edge === entry.via || visited.has(next)) return;
+        visited.add(next);
+        stack.push({ vertex: next, via: edge });
+      });
+    }
+    if (netEdges.size !== order.length - 1) return; // A loop; the split of current is unknown
+
+    // Known current drawn and number of unknown pins in the subtree below each vertex,
+    // accumulated children before parents
+    const below = new Map<string, { sum: number; unknowns: number }>();
+    order.forEach(({ vertex }) => {
+      const own = injection(vertex);
+      below.set(vertex, { sum: own ?? 0, unknowns: own === null ? 1 : 0 });
+    });
+    for (let i = order.length - 1; i > 0; i--) {
+      const { vertex, via } = order[i];
+      const parent = via!.from === vertex ? via!.to : via!.from;
+      const child = below.get(vertex)!;
+      const total = below.get(parent)!;
+      below.set(parent, { sum: total.sum + child.sum, unknowns: total.unknowns + child.unknowns });
+    }
+    const whole = below.get(root)!;
+
+    // The current through a piece towards a vertex is drawn by the subtree below it, or
+    // equally supplied by everything else, whichever side is fully known
+    order.slice(1).forEach(({ vertex, via }) => {
+      const side = below.get(vertex)!;
+      let toward: number | null = null;
+      if (side.unknowns === 0) toward = side.sum;
+      else if (side.unknowns === whole.unknowns) toward = side.sum - whole.sum;
+      if (toward !== null) via!.piece.current = via!.to === vertex ? toward : -toward;
+    });
+  });
+
+  return edges.map(edge => edge.piece);
+}
+
+// Distance along the route to the point nearest `target`, and that point
+function locateOnRoute(route: Point[], target: Point): { position: number; point: Point } {
+  let best = { position: 0, point: route[0], distance: Infinity };
+  let travelled = 0;
+  for (let i = 1; i < route.length; i++) {
+    const a = route[i - 1];
+    const b = route[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const t = length === 0 ? 0 : Math.max(0, Math.min(1, ((target.x - a.x) * (b.x - a.x) + (target.y - a.y) * (b.y - a.y)) / (length * length)));
+    const point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    const distance = Math.hypot(target.x - point.x, target.y - point.y);
+    if (distance < best.distance) best = { position: travelled + t * length, point, distance };
+    travelled += length;
+  }
+  return { position: best.position, point: best.point };
+}
+
+const routeLength = (route: Point[]) =>
+  route.slice(1).reduce((sum, p, i) => sum + Math.hypot(p.x - route[i].x, p.y - route[i].y), 0);
+
+// Inner corners of the route with their distance from the start
+const routeCorners = (route: Point[]) =>
+  route.slice(1, -1).map((point, i) => ({ point, position: routeLength(route.slice(0, i + 2)) }));
+
+const distanceToRoute = (route: Point[], target: Point) => {
+  const { point } = locateOnRoute(route, target);
+  return Math.hypot(target.x - point.x, target.y - point.y);
+};
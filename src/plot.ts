@@ -0,0 +1,128 @@
+// src/plot.ts
+// Data and axis arithmetic for the waveform viewer (src/components/PlotPanel.tsx). Every trace
+// shares one x axis; nothing here knows which analysis produced the numbers.
+import { formatQuantity } from './overlay';
+
+export interface Trace {
+  id: string;
+  probeId: string; // the probe the trace comes from
+  label: string; // e.g. "V(N1)"
+  unit: string;
+  color: string;
+  dash?: string; // SVG dash pattern, telling apart the probes of a family of curves
+  values: number[]; // one per x value, NaN where the quantity is undefined
+}
+
+export interface PlotData {
+  xLabel: string;
+  xUnit: string;
+  x: number[];
+  traces: Trace[];
+  logX?: boolean; // suggested starting scale, e.g. for frequency sweeps
+}
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+// Trace colours in probe order, so a probe on the canvas matches its trace
+export const TRACE_COLORS = ['#2980b9', '#c0392b', '#27ae60', '#8e44ad', '#d35400', '#16a085', '#f39c12', '#7f8c8d'];
+
+export const traceColor = (index: number) => TRACE_COLORS[index % TRACE_COLORS.length];
+
+const TRACE_DASHES = [undefined, '6 3', '2 2', '8 3 2 3'];
+
+// The curves of several runs of one analysis in one plot, e.g. of a parametric sweep. Curves are
+// coloured by run and dashed by probe; labels get the run's label appended.
+export function familyPlot(runs: { label: string; data: PlotData }[]): PlotData {
+  if (runs.length === 1) return runs[0].data;
+  // A run that failed part way has fewer points; the longest one has them all
+  const longest = runs.reduce((best, run) => (run.data.x.length > best.data.x.length ? run : best), runs[0]).data;
+  const traces = runs.flatMap((run, r) => run.data.traces.map((trace, t): Trace => ({
+    ...trace,
+    id: `${trace.id}/${r}`,
+    label: `${trace.label} ${run.label}`,
+    color: traceColor(r),
+    dash: TRACE_DASHES[t % TRACE_DASHES.length],
+    values: longest.x.map((_, i) => trace.values[i] ?? NaN),
+  })));
+  return { ...longest, traces };
+}
+
+// Extent of the finite values (only the positive ones on a log axis); null when there are none
+export function dataRange(values: number[], log: boolean): Range | null {
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    if (!Number.isFinite(value) || (log && value <= 0)) return;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+  if (min > max) return null;
+  if (min < max) return { min, max };
+  // A flat trace still needs some height to be drawn
+  return log ? { min: min / 10, max: max * 10 } : { min: min - (Math.abs(min) || 1), max: max + (Math.abs(max) || 1) };
+}
+
+// Position of a value along an axis, 0 at the range minimum and 1 at its maximum
+export function axisFraction(value: number, range: Range, log: boolean): number {
+  return log
+    ? Math.log10(value / range.min) / Math.log10(range.max / range.min)
+    : (value - range.min) / (range.max - range.min);
+}
+
+export function axisValue(fraction: number, range: Range, log: boolean): number {
+  return log
+    ? range.min * Math.pow(range.max / range.min, fraction)
+    : range.min + fraction * (range.max - range.min);
+}
+
+// Round tick values 1, 2 or 5 × 10ⁿ apart; decades on a log axis spanning at least one
+export function axisTicks(range: Range, log: boolean, count = 5): number[] {
+  if (log) {
+    const first = Math.ceil(Math.log10(range.min) - 1e-9);
+    const last = Math.floor(Math.log10(range.max) + 1e-9);
+    if (last > first) {
+      const stride = Math.ceil((last - first + 1) / 8);
+      const ticks: number[] = [];
+      for (let exponent = first; exponent <= last; exponent += stride) ticks.push(Math.pow(10, exponent));
+      return ticks;
+    }
+  }
+  const rough = (range.max - range.min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = ([1, 2, 5, 10].find(f => f * magnitude >= rough) ?? 10) * magnitude;
+  const ticks: number[] = [];
+  for (let i = Math.ceil(range.min / step - 1e-9); i * step <= range.max + step * 1e-9; i++) ticks.push(i * step);
+  return ticks;
+}
+
+// Value of a trace at `at`, interpolated linearly between samples; null outside the data
+export function valueAt(x: number[], values: number[], at: number): number | null {
+  if (x.length === 1 && x[0] === at) return values[0];
+  for (let i = 1; i < x.length; i++) {
+    if ((at - x[i - 1]) * (at - x[i]) > 0) continue; // Not between these two samples
+    if (x[i] === x[i - 1]) return values[i];
+    const t = (at - x[i - 1]) / (x[i] - x[i - 1]);
+    return values[i - 1] + t * (values[i] - values[i - 1]);
+  }
+  return null;
+}
+
+// One row per x value within the range, one column per trace
+export function plotCsv(data: PlotData, range?: Range): string {
+  const field = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  const heading = (label: string, unit: string) => field(unit ? `${label} (${unit})` : label);
+  const rows = [[heading(data.xLabel, data.xUnit), ...data.traces.map(t => heading(t.label, t.unit))].join(',')];
+  data.x.forEach((x, i) => {
+    if (range && (x < range.min || x > range.max)) return;
+    rows.push([x, ...data.traces.map(t => t.values[i])].map(v => (Number.isFinite(v) ? String(v) : '')).join(','));
+  });
+  return rows.join('\n') + '\n';
+}
+
+// Tick and readout text: SI prefixes for physical units, plain numbers for dB and degrees
+export function formatPlotValue(value: number, unit: string): string {
+  return unit === 'dB' || unit === '°' ? `${Number(value.toPrecision(4))} ${unit}` : formatQuantity(value, unit);
+}
@@ -0,0 +1,126 @@
+// src/probes.ts
+// Probes dropped on the canvas and the traces they give. A voltage probe reads the net of the
+// wire it sits on; a current probe reads the current through its component, positive into the
+// first terminal as in the simulation results. Traces are named like SPICE output: V(net), I(R1).
+import { CircuitComponent, ComponentType, Wire, SubCircuit, Probe, Point } from './types/types';
+import { componentSize, isNetSymbol } from './terminals';
+import { hitWire } from './wires';
+import { designatorsOf } from './spice/exporter';
+import { Node, NodeMap, ComponentCurrents } from './simulation/mna';
+import { TransientResult } from './simulation/transient';
+import { AcResult, Phasor } from './simulation/ac';
+import { DcSweepResult } from './simulation/sweep';
+import { OperatingPoint } from './simulation/simulator';
+import { formatQuantity } from './overlay';
+import { PlotData, Trace, traceColor } from './plot';
+
+const VALUE_UNITS: Partial<Record<ComponentType, string>> = {
+  resistor: 'Ω',
+  capacitor: 'F',
+  inductor: 'H',
+  voltage: 'V',
+  current: 'A',
+  vcvs: 'V/V',
+  vccs: 'S',
+  ccvs: 'Ω',
+  cccs: 'A/A',
+};
+
+// Subcircuits have no single current and net symbols none at all
+export const canProbeCurrent = (component: CircuitComponent) => component.type !== 'subcircuit' && !isNetSymbol(component);
+
+// Probes whose wire or component is still on the canvas
+export function attachedProbes(probes: Probe[], components: CircuitComponent[], wires: Wire[]): Probe[] {
+  return probes.filter(probe => probe.kind === 'voltage'
+    ? wires.some(w => w.id === probe.at.wireId)
+    : components.some(c => c.id === probe.componentId && canProbeCurrent(c)));
+}
+
+// Where the probe marker is drawn: on its wire, nearest to where it was dropped, or at the
+// top-right corner of its component. Null while the wire is dangling.
+export function probePosition(probe: Probe, components: CircuitComponent[], wires: Wire[], subcircuits: SubCircuit[]): Point | null {
+  if (probe.kind === 'voltage') {
+    const wire = wires.filter(w => w.id === probe.at.wireId);
+    return hitWire(probe.at.x, probe.at.y, wire, components, subcircuits, Infinity);
+  }
+  const component = components.find(c => c.id === probe.componentId);
+  return component ? { x: component.x + componentSize(component, subcircuits).width, y: component.y } : null;
+}
+
+export function probeLabel(probe: Probe, components: CircuitComponent[], wireNodes: { [wireId: string]: Node }): string {
+  return probe.kind === 'voltage'
+    ? `V(${wireNodes[probe.at.wireId] ?? '?'})`
+    : `I(${designatorsOf(components).get(probe.componentId) ?? probe.componentId})`;
+}
+
+// What the probe reads at a DC operating point, NaN when the circuit did not solve
+export function probeReading(probe: Probe, result: OperatingPoint): number {
+  if (result.error) return NaN;
+  return (probe.kind === 'voltage'
+    ? result.nodeVoltages[result.wireNodes?.[probe.at.wireId] ?? '']
+    : result.componentCurrents[probe.componentId]) ?? NaN;
+}
+
+// Names the component values of a sweep step, e.g. "R1=2.2 kΩ"
+export function sweepStepLabel(values: { [componentId: string]: number }, components: CircuitComponent[]): string {
+  const designators = designatorsOf(components);
+  return Object.entries(values).map(([id, value]) => {
+    const component = components.find(c => c.id === id);
+    return `${designators.get(id) ?? id}=${formatQuantity(value, (component && VALUE_UNITS[component.type]) ?? '')}`;
+  }).join(', ');
+}
+
+// One trace per probe, over points of a DC or transient analysis
+function probeTraces(
+  probes: Probe[],
+  components: CircuitComponent[],
+  wireNodes: { [wireId: string]: Node },
+  points: { nodeVoltages: NodeMap; componentCurrents: ComponentCurrents }[]
+): Trace[] {
+  return probes.map((probe, index) => ({
+    id: probe.id,
+    probeId: probe.id,
+    label: probeLabel(probe, components, wireNodes),
+    unit: probe.kind === 'voltage' ? 'V' : 'A',
+    color: traceColor(index),
+    values: points.map(point => (probe.kind === 'voltage'
+      ? point.nodeVoltages[wireNodes[probe.at.wireId]]
+      : point.componentCurrents[probe.componentId]) ?? NaN),
+  }));
+}
+
+// Traces over time, one per probe
+export function transientPlot(probes: Probe[], result: TransientResult, components: CircuitComponent[]): PlotData {
+  const traces = probeTraces(probes, components, result.wireNodes ?? {}, result.points);
+  return { xLabel: 'Time', xUnit: 's', x: result.points.map(point => point.time), traces };
+}
+
+// Traces over the swept source value, one per probe
+export function dcSweepPlot(probes: Probe[], result: DcSweepResult, components: CircuitComponent[]): PlotData {
+  const source = components.find(c => c.id === result.sourceId);
+  return {
+    xLabel: designatorsOf(components).get(result.sourceId) ?? result.sourceId,
+    xUnit: (source && VALUE_UNITS[source.type]) ?? '',
+    x: result.points.map(point => point.value),
+    traces: probeTraces(probes, components, result.wireNodes ?? {}, result.points),
+  };
+}
+
+export type AcQuantity = 'magnitude' | 'phase';
+
+// Traces over frequency, one per probe: the magnitude in dB or the phase in degrees
+export function acPlot(probes: Probe[], result: AcResult, components: CircuitComponent[], quantity: AcQuantity): PlotData {
+  const wireNodes = result.wireNodes ?? {};
+  const read = (phasor: Phasor | undefined) => (phasor ? (quantity === 'magnitude' ? phasor.magnitudeDb : phasor.phase) : NaN);
+  const traces = probes.map((probe, index): Trace => ({
+    id: probe.id,
+    probeId: probe.id,
+    label: probeLabel(probe, components, wireNodes),
+    unit: quantity === 'magnitude' ? 'dB' : '°',
+    color: traceColor(index),
+    values: result.points.map(point => read(probe.kind === 'voltage'
+      ? point.nodeVoltages[wireNodes[probe.at.wireId]]
+      : point.componentCurrents[probe.componentId])),
+  }));
+  return { xLabel: 'Frequency', xUnit: 'Hz', x: result.points.map(point => point.frequency), traces, logX: true };
+}
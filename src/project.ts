@@ -0,0 +1,377 @@
+// src/project.ts
+// Versioned JSON project file: the circuit, the subcircuit library, the probes and the view settings.
+// Files are migrated up to the current version, then validated before anything touches app state.
+import {
+  CircuitComponent,
+  Wire,
+  WireEnd,
+  SubCircuit,
+  ViewSettings,
+  ComponentType,
+  TerminalRef,
+  Point,
+  Probe,
+  SourceWaveform,
+  SwitchModel,
+} from './types/types';
+import { TERMINAL_DEFINITIONS, terminalsOf } from './terminals';
+import { isWireJoint } from './wires';
+import { MIN_ZOOM, MAX_ZOOM } from './view';
+
+export const PROJECT_FORMAT = 'circuit-project';
+export const PROJECT_VERSION = 2;
+
+export const DEFAULT_VIEW: ViewSettings = { zoom: 1, panX: 0, panY: 0 };
+
+export interface Project {
+  components: CircuitComponent[];
+  wires: Wire[];
+  subcircuits: SubCircuit[];
+  probes: Probe[];
+  view: ViewSettings;
+}
+
+export interface ProjectFile extends Project {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+}
+
+// Raised for files that cannot be loaded; the message is meant to be shown to the user as is
+export class ProjectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+type Json = { [key: string]: unknown };
+
+// Upgrades a document of version N to version N + 1, keyed by N. Add an entry here
+// (and bump PROJECT_VERSION) whenever the file format changes.
+const MIGRATIONS: { [fromVersion: number]: (document: Json) => Json } = {
+  1: document => ({ ...document, probes: [] }), // Version 2 added probes
+};
+
+export function serializeProject(project: Project): string {
+  const file: ProjectFile = { format: PROJECT_FORMAT, version: PROJECT_VERSION, ...project };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseProject(text: string): Project {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (e) {
+    throw new ProjectError(`The file is not valid JSON (${(e as Error).message}).`);
+  }
+  if (!isObject(document) || document.format !== PROJECT_FORMAT) {
+    throw new ProjectError('The file is not a circuit project.');
+  }
+
+  const project = validateProject(migrate(document));
+  checkReferences(project);
+  return project;
+}
+
+function migrate(document: Json): Json {
+  let version = document.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectError('The project file has no valid format version.');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectError(
+      `The project was saved by a newer version of the editor (format ${version}); this editor reads up to format ${PROJECT_VERSION}.`
+    );
+  }
+  while (version < PROJECT_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) throw new ProjectError(`Project format ${version} can no longer be opened.`);
+    document = upgrade(document);
+    version += 1;
+  }
+  return document;
+}
+
+// Structural validation. Paths in messages follow the JSON layout, e.g. `components[3].value`.
+
+const COMPONENT_TYPES = [...Object.keys(TERMINAL_DEFINITIONS), 'subcircuit'] as ComponentType[];
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fail(path: string, expectation: string): never {
+  throw new ProjectError(`Invalid project file: ${path} ${expectation}.`);
+}
+
+function expectObject(value: unknown, path: string): Json {
+  if (!isObject(value)) fail(path, 'must be an object');
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, 'must be a list');
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value === '') fail(path, 'must be a non-empty string');
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'must be a number');
+  return value;
+}
+
+function optionalNumber(value: unknown, path: string): number | undefined {
+  return value === undefined ? undefined : expectNumber(value, path);
+}
+
+// Model parameter overrides: every present field must be a number, except the listed enums
+function expectModel<T>(value: unknown, path: string, enums: { [key: string]: string[] } = {}): Partial<T> {
+  const model = expectObject(value, path);
+  Object.entries(model).forEach(([key, field]) => {
+    if (enums[key]) {
+      if (!enums[key].includes(field as string)) fail(`${path}.${key}`, `must be one of ${enums[key].join(', ')}`);
+    } else {
+      expectNumber(field, `${path}.${key}`);
+    }
+  });
+  return model as Partial<T>;
+}
+
+const WAVEFORM_FIELDS: { [kind in SourceWaveform['kind']]: string[] } = {
+  sin: ['offset', 'amplitude', 'frequency', 'phase', 'delay'],
+  pulse: ['initial', 'pulsed', 'delay', 'rise', 'fall', 'width', 'period'],
+  pwl: [],
+};
+
+function validateWaveform(value: unknown, path: string): SourceWaveform {
+  const raw = expectObject(value, path);
+  const kind = raw.kind as SourceWaveform['kind'];
+  if (!Object.keys(WAVEFORM_FIELDS).includes(kind)) fail(`${path}.kind`, `must be one of ${Object.keys(WAVEFORM_FIELDS).join(', ')}`);
+  if (kind === 'pwl') {
+    const points = expectArray(raw.points, `${path}.points`).map((p, i) => {
+      const point = expectObject(p, `${path}.points[${i}]`);
+      return { time: expectNumber(point.time, `${path}.points[${i}].time`), value: expectNumber(point.value, `${path}.points[${i}].value`) };
+    });
+    if (points.some((point, i) => i > 0 && point.time < points[i - 1].time)) fail(`${path}.points`, 'must be in time order');
+    return { kind, points };
+  }
+  const waveform: Json = { kind };
+  WAVEFORM_FIELDS[kind].forEach(key => {
+    waveform[key] = expectNumber(raw[key], `${path}.${key}`);
+  });
+  return waveform as SourceWaveform;
+}
+
+function validateSwitchModel(value: unknown, path: string): Partial<SwitchModel> {
+  const raw = expectObject(value, path);
+  const model: Partial<SwitchModel> = {};
+  if (raw.closed !== undefined) {
+    if (typeof raw.closed !== 'boolean') fail(`${path}.closed`, 'must be true or false');
+    model.closed = raw.closed;
+  }
+  if (raw.toggleTimes !== undefined) {
+    model.toggleTimes = expectArray(raw.toggleTimes, `${path}.toggleTimes`).map((t, i) => expectNumber(t, `${path}.toggleTimes[${i}]`));
+  }
+  const onResistance = optionalNumber(raw.onResistance, `${path}.onResistance`);
+  if (onResistance !== undefined) model.onResistance = onResistance;
+  const offResistance = optionalNumber(raw.offResistance, `${path}.offResistance`);
+  if (offResistance !== undefined) model.offResistance = offResistance;
+  return model;
+}
+
+function validateComponent(value: unknown, path: string): CircuitComponent {
+  const raw = expectObject(value, path);
+  const type = raw.type as ComponentType;
+  if (!COMPONENT_TYPES.includes(type)) fail(`${path}.type`, `must be one of ${COMPONENT_TYPES.join(', ')}`);
+
+  const component: CircuitComponent = {
+    id: expectString(raw.id, `${path}.id`),
+    type,
+    x: expectNumber(raw.x, `${path}.x`),
+    y: expectNumber(raw.y, `${path}.y`),
+    value: expectNumber(raw.value, `${path}.value`),
+  };
+  const rotation = optionalNumber(raw.rotation, `${path}.rotation`);
+  if (rotation !== undefined) component.rotation = rotation;
+  if (raw.mirrored !== undefined) {
+    if (typeof raw.mirrored !== 'boolean') fail(`${path}.mirrored`, 'must be true or false');
+    component.mirrored = raw.mirrored;
+  }
+  const acMagnitude = optionalNumber(raw.acMagnitude, `${path}.acMagnitude`);
+  if (acMagnitude !== undefined) component.acMagnitude = acMagnitude;
+  const acPhase = optionalNumber(raw.acPhase, `${path}.acPhase`);
+  if (acPhase !== undefined) component.acPhase = acPhase;
+  if (raw.diodeModel !== undefined) component.diodeModel = expectModel(raw.diodeModel, `${path}.diodeModel`);
+  if (raw.bjtModel !== undefined) {
+    component.bjtModel = expectModel(raw.bjtModel, `${path}.bjtModel`, { polarity: ['npn', 'pnp'] });
+  }
+  if (raw.bulbModel !== undefined) component.bulbModel = expectModel(raw.bulbModel, `${path}.bulbModel`);
+  if (raw.switchModel !== undefined) component.switchModel = validateSwitchModel(raw.switchModel, `${path}.switchModel`);
+  if (raw.waveform !== undefined) component.waveform = validateWaveform(raw.waveform, `${path}.waveform`);
+  if (raw.tolerance !== undefined) {
+    const tolerance = expectObject(raw.tolerance, `${path}.tolerance`);
+    const percent = expectNumber(tolerance.percent, `${path}.tolerance.percent`);
+    if (percent < 0) fail(`${path}.tolerance.percent`, 'must not be negative');
+    if (tolerance.distribution !== 'uniform' && tolerance.distribution !== 'gaussian') {
+      fail(`${path}.tolerance.distribution`, 'must be one of uniform, gaussian');
+    }
+    component.tolerance = { percent, distribution: tolerance.distribution };
+  }
+  if (raw.netName !== undefined) component.netName = expectString(raw.netName, `${path}.netName`);
+  if (type === 'subcircuit') component.subcircuitId = expectString(raw.subcircuitId, `${path}.subcircuitId`);
+  return component;
+}
+
+function validateTerminalRef(value: unknown, path: string): TerminalRef {
+  const ref = expectObject(value, path);
+  const terminal = expectNumber(ref.terminal, `${path}.terminal`);
+  if (!Number.isInteger(terminal) || terminal < 0) fail(`${path}.terminal`, 'must be a terminal index');
+  return { componentId: expectString(ref.componentId, `${path}.componentId`), terminal };
+}
+
+function validatePoint(value: unknown, path: string): Point {
+  const point = expectObject(value, path);
+  return { x: expectNumber(point.x, `${path}.x`), y: expectNumber(point.y, `${path}.y`) };
+}
+
+// A wire end is either a pin reference or a joint on another wire
+function validateWireEnd(value: unknown, path: string): WireEnd {
+  const end = expectObject(value, path);
+  if (end.wireId === undefined) return validateTerminalRef(end, path);
+  return { wireId: expectString(end.wireId, `${path}.wireId`), ...validatePoint(end, path) };
+}
+
+function validateWire(value: unknown, path: string): Wire {
+  const raw = expectObject(value, path);
+  const wire: Wire = {
+    id: expectString(raw.id, `${path}.id`),
+    from: validateWireEnd(raw.from, `${path}.from`),
+    to: validateWireEnd(raw.to, `${path}.to`),
+  };
+  if (raw.waypoints !== undefined) {
+    wire.waypoints = expectArray(raw.waypoints, `${path}.waypoints`).map((p, i) => validatePoint(p, `${path}.waypoints[${i}]`));
+  }
+  return wire;
+}
+
+function validateSubcircuit(value: unknown, path: string): SubCircuit {
+  const raw = expectObject(value, path);
+  const ports = (list: unknown, listPath: string) =>
+    expectArray(list, listPath).map((item, i) => {
+      const portPath = `${listPath}[${i}]`;
+      const port = expectObject(item, portPath);
+      return {
+        id: expectString(port.id, `${portPath}.id`),
+        name: expectString(port.name, `${portPath}.name`),
+        x: expectNumber(port.x, `${portPath}.x`),
+        y: expectNumber(port.y, `${portPath}.y`),
+        binding: validateTerminalRef(port.binding, `${portPath}.binding`),
+      };
+    });
+  return {
+    id: expectString(raw.id, `${path}.id`),
+    name: expectString(raw.name, `${path}.name`),
+    internalComponents: expectArray(raw.internalComponents, `${path}.internalComponents`)
+      .map((c, i) => validateComponent(c, `${path}.internalComponents[${i}]`)),
+    internalWires: expectArray(raw.internalWires, `${path}.internalWires`)
+      .map((w, i) => validateWire(w, `${path}.internalWires[${i}]`)),
+    inputs: ports(raw.inputs, `${path}.inputs`),
+    outputs: ports(raw.outputs, `${path}.outputs`),
+    width: expectNumber(raw.width, `${path}.width`),
+    height: expectNumber(raw.height, `${path}.height`),
+  };
+}
+
+function validateProbe(value: unknown, path: string): Probe {
+  const raw = expectObject(value, path);
+  const id = expectString(raw.id, `${path}.id`);
+  if (raw.kind === 'voltage') {
+    const at = expectObject(raw.at, `${path}.at`);
+    return { id, kind: 'voltage', at: { wireId: expectString(at.wireId, `${path}.at.wireId`), ...validatePoint(at, `${path}.at`) } };
+  }
+  if (raw.kind === 'current') return { id, kind: 'current', componentId: expectString(raw.componentId, `${path}.componentId`) };
+  fail(`${path}.kind`, 'must be one of voltage, current');
+}
+
+function validateProject(document: Json): Project {
+  const view = document.view === undefined ? DEFAULT_VIEW : expectObject(document.view, 'view');
+  // Screen positions are divided by the zoom, so it must stay within what the zoom controls allow
+  const zoom = expectNumber(view.zoom, 'view.zoom');
+  if (zoom < MIN_ZOOM || zoom > MAX_ZOOM) fail('view.zoom', `must be between ${MIN_ZOOM} and ${MAX_ZOOM}`);
+  return {
+    components: expectArray(document.components, 'components').map((c, i) => validateComponent(c, `components[${i}]`)),
+    wires: expectArray(document.wires, 'wires').map((w, i) => validateWire(w, `wires[${i}]`)),
+    subcircuits: expectArray(document.subcircuits, 'subcircuits').map((s, i) => validateSubcircuit(s, `subcircuits[${i}]`)),
+    probes: expectArray(document.probes, 'probes').map((p, i) => validateProbe(p, `probes[${i}]`)),
+    view: {
+      zoom,
+      panX: expectNumber(view.panX, 'view.panX'),
+      panY: expectNumber(view.panY, 'view.panY'),
+    },
+  };
+}
+
+// Cross-references: subcircuit ids, wire endpoints, port bindings and probe targets must all resolve
+function checkReferences(project: Project) {
+  const library = new Map<string, SubCircuit>();
+  project.subcircuits.forEach(s => {
+    if (library.has(s.id)) throw new ProjectError(`The subcircuit library contains "${s.id}" twice.`);
+    library.set(s.id, s);
+  });
+
+  const checkLevel = (components: CircuitComponent[], wires: Wire[], where: string) => {
+    const byId = new Map<string, CircuitComponent>();
+    components.forEach(c => {
+      if (byId.has(c.id)) throw new ProjectError(`Component "${c.id}" ${where} appears twice.`);
+      byId.set(c.id, c);
+      if (c.type === 'subcircuit' && !library.has(c.subcircuitId!)) {
+        throw new ProjectError(
+          `Component "${c.id}" ${where} is an instance of subcircuit "${c.subcircuitId}", which is missing from the subcircuit library.`
+        );
+      }
+    });
+    const wireIds = new Set(wires.map(w => w.id));
+    wires.forEach(w => {
+      [w.from, w.to].forEach(end => {
+        if (isWireJoint(end)) {
+          if (end.wireId === w.id) throw new ProjectError(`Wire "${w.id}" ${where} ends on itself.`);
+          if (!wireIds.has(end.wireId)) {
+            throw new ProjectError(`Wire "${w.id}" ${where} ends on wire "${end.wireId}", which does not exist.`);
+          }
+          return;
+        }
+        const component = byId.get(end.componentId);
+        if (!component) {
+          throw new ProjectError(`Wire "${w.id}" ${where} is connected to component "${end.componentId}", which does not exist.`);
+        }
+        if (end.terminal >= terminalsOf(component, project.subcircuits).length) {
+          throw new ProjectError(`Wire "${w.id}" ${where} is connected to terminal ${end.terminal} of "${component.id}", which has no such terminal.`);
+        }
+      });
+    });
+    return byId;
+  };
+
+  const canvas = checkLevel(project.components, project.wires, 'on the canvas');
+  project.probes.forEach(probe => {
+    if (probe.kind === 'voltage' && !project.wires.some(w => w.id === probe.at.wireId)) {
+      throw new ProjectError(`Probe "${probe.id}" is on wire "${probe.at.wireId}", which does not exist.`);
+    }
+    if (probe.kind === 'current' && !canvas.has(probe.componentId)) {
+      throw new ProjectError(`Probe "${probe.id}" is on component "${probe.componentId}", which does not exist.`);
+    }
+  });
+  project.subcircuits.forEach(s => {
+    const where = `in subcircuit "${s.name}"`;
+    const internal = checkLevel(s.internalComponents, s.internalWires, where);
+    [...s.inputs, ...s.outputs].forEach(port => {
+      if (!internal.has(port.binding.componentId)) {
+        throw new ProjectError(`Port "${port.name}" ${where} is bound to component "${port.binding.componentId}", which does not exist.`);
+      }
+    });
+  });
+}
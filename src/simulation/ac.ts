@@ -0,0 +1,407 @@
+// src/simulation/ac.ts
+import { CircuitComponent, Wire, SubCircuit } from '../types/types';
+import { create, all, Complex } from 'mathjs';
+import { prepareTopology, wireNodesOf } from './flatten';
+import { allocateBranches, senseBranch, CircuitTopology, Node, SimulationError } from './mna';
+import { solveCircuit, shortedSourceError, junctionNodeOf, junctionKey, GMIN } from './assembly';
+import {
+  diodeModelOf,
+  bjtModelOf,
+  resistanceOf,
+  junctionCurrent,
+  bjtLinearization,
+  BjtLinearization,
+  hasVoltageOutput,
+  sensesCurrent,
+  switchResistanceOf,
+  COMMON,
+  NORMALLY_CLOSED,
+  NORMALLY_OPEN,
+  COLLECTOR,
+  BASE,
+  EMITTER,
+  CONTROL_POSITIVE,
+  CONTROL_NEGATIVE,
+} from './devices';
+
+const math = create(all);
+
+export interface AcSweepOptions {
+  startFrequency: number; // Hz
+  stopFrequency: number; // Hz
+  points: number; // total number of frequencies in the sweep
+  scale?: 'log' | 'linear'; // defaults to log
+}
+
+export interface Phasor {
+  magnitude: number;
+  magnitudeDb: number; // 20*log10(magnitude)
+  phase: number; // degrees
+}
+
+export interface AcPoint {
+  frequency: number;
+  nodeVoltages: { [node: string]: Phasor };
+  componentCurrents: { [componentId: string]: Phasor };
+}
+
+export interface AcResult {
+  points: AcPoint[];
+  error?: string;
+  wireNodes?: { [wireId: string]: Node }; // Nets of the top-level wires, for voltage probes
+}
+
+export const MAX_AC_POINTS = 10000;
+
+export function sweepFrequencies(options: AcSweepOptions): number[] {
+  const { startFrequency, stopFrequency, points } = options;
+  if (points === 1) return [startFrequency];
+
+  const frequencies: number[] = [];
+  for (let i = 0; i < points; i++) {
+    if (i === points - 1) {
+      frequencies.push(stopFrequency); // avoid floating point drift on the last point
+      break;
+    }
+    const t = i / (points - 1);
+    frequencies.push(options.scale === 'linear'
+      ? startFrequency + t * (stopFrequency - startFrequency)
+      : startFrequency * Math.pow(stopFrequency / startFrequency, t));
+  }
+  return frequencies;
+}
+
+// Small-signal frequency sweep. Every independent source with an acMagnitude drives the
+// circuit with that phasor; the other voltage sources are shorted and current sources opened.
+// Capacitors and inductors become jωC and jωL impedances; controlled sources keep their gains.
+export function simulateAC(
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[],
+  options: AcSweepOptions
+): AcResult {
+  const { startFrequency, stopFrequency, points } = options;
+  if (!(startFrequency > 0) || !(stopFrequency >= startFrequency) || !(points >= 1)) {
+    return { points: [], error: 'AC analysis needs 0 < start frequency <= stop frequency and at least one point.' };
+  }
+  if (points > MAX_AC_POINTS) {
+    return { points: [], error: `AC analysis is limited to ${MAX_AC_POINTS} frequency points.` };
+  }
+
+  let prepared: CircuitTopology | null;
+  try {
+    prepared = prepareTopology(components, wires, subcircuits);
+  } catch (e) {
+    if (!(e instanceof SimulationError)) throw e;
+    return { points: [], error: e.message };
+  }
+  if (!prepared) {
+    return { points: [] };
+  }
+  const topology = prepared;
+  const { nodeOf } = topology;
+  const wireNodes = wireNodesOf(topology, wires);
+
+  // Inductors get a branch row (V = jωL·I) so they stay well defined at any frequency
+  const branchIndexMap = allocateBranches(topology, comp => hasVoltageOutput(comp) || comp.type === 'inductor');
+  const shorted = shortedSourceError(topology);
+  if (shorted) {
+    return { points: [], error: shorted.message, wireNodes };
+  }
+
+  // Nonlinear devices are linearised around the DC operating point
+  let junctionVoltages = new Map<string, number>();
+  if (topology.components.some(comp => comp.type === 'diode' || comp.type === 'transistor')) {
+    try {
+      junctionVoltages = solveCircuit(topology, { kind: 'dc' }).junctionVoltages;
+    } catch (e) {
+      if (!(e instanceof SimulationError)) throw e;
+      return { points: [], error: `Operating point for AC analysis failed: ${e.message}`, wireNodes };
+    }
+  }
+
+  const transistorModel = (comp: CircuitComponent): BjtLinearization => bjtLinearization(
+    bjtModelOf(comp),
+    junctionVoltages.get(junctionKey(comp.id, 'be'))!,
+    junctionVoltages.get(junctionKey(comp.id, 'bc'))!
+  );
+
+  const stimulusOf = (comp: CircuitComponent): Complex => (comp.acMagnitude
+    ? math.complex({ r: comp.acMagnitude, phi: ((comp.acPhase ?? 0) * Math.PI) / 180 })
+    : math.complex(0, 0));
+
+  const result: AcPoint[] = [];
+  for (const frequency of sweepFrequencies(options)) {
+    const omega = 2 * Math.PI * frequency;
+    const system = new ComplexMnaSystem(topology, branchIndexMap.size);
+
+    for (const comp of topology.components) {
+      const nodeA = nodeOf(comp.id, 0);
+      const nodeB = nodeOf(comp.id, 1);
+      const branch = branchIndexMap.get(comp.id);
+
+      if (comp.type === 'resistor' || comp.type === 'bulb' || comp.type === 'spst') {
+        system.stampAdmittance(nodeA, nodeB, math.complex(1 / resistanceOf(comp), 0));
+      } else if (comp.type === 'spdt') {
+        const common = nodeOf(comp.id, COMMON);
+        system.stampAdmittance(common, nodeOf(comp.id, NORMALLY_CLOSED), math.complex(1 / switchResistanceOf(comp, 'nc'), 0));
+        system.stampAdmittance(common, nodeOf(comp.id, NORMALLY_OPEN), math.complex(1 / switchResistanceOf(comp, 'no'), 0));
+      } else if (comp.type === 'capacitor') {
+        system.stampAdmittance(nodeA, nodeB, math.complex(0, omega * comp.value));
+      } else if (comp.type === 'inductor') {
+        system.stampImpedanceBranch(nodeA, nodeB, branch!, math.complex(0, omega * comp.value));
+      } else if (comp.type === 'voltage') {
+        system.stampVoltageSource(nodeA, nodeB, branch!, stimulusOf(comp));
+      } else if (comp.type === 'current') {
+        system.stampCurrentSource(nodeA, nodeB, stimulusOf(comp));
+      } else if (comp.type === 'vcvs' || comp.type === 'vccs' || comp.type === 'ccvs' || comp.type === 'cccs') {
+        // Same equations as in assembly.ts, with output on terminals 0-1 and control on 2-3
+        const ctrlP = nodeOf(comp.id, CONTROL_POSITIVE);
+        const ctrlN = nodeOf(comp.id, CONTROL_NEGATIVE);
+        const sense = branchIndexMap.get(senseBranch(comp.id))!;
+        if (sensesCurrent(comp)) system.stampVoltageSource(ctrlP, ctrlN, sense, math.complex(0, 0));
+        if (comp.type === 'vcvs' || comp.type === 'ccvs') {
+          system.stampVoltageSource(nodeA, nodeB, branch!, math.complex(0, 0));
+        }
+        if (comp.type === 'vcvs') system.stampVoltageGain(branch!, ctrlP, ctrlN, comp.value);
+        if (comp.type === 'vccs') system.stampTransconductance(nodeA, nodeB, ctrlP, ctrlN, comp.value);
+        if (comp.type === 'ccvs') system.stampTransresistance(branch!, sense, comp.value);
+        if (comp.type === 'cccs') system.stampCurrentGain(nodeA, nodeB, sense, comp.value);
+      } else if (comp.type === 'diode') {
+        const model = diodeModelOf(comp);
+        const junction = junctionNodeOf(topology, comp);
+        if (model.seriesResistance > 0) {
+          system.stampAdmittance(nodeA, junction, math.complex(1 / model.seriesResistance, 0));
+        }
+        const gd = junctionCurrent(model, junctionVoltages.get(junctionKey(comp.id))!).conductance + GMIN;
+        system.stampAdmittance(junction, nodeB, math.complex(gd, 0));
+      } else if (comp.type === 'transistor') {
+        // Hybrid-pi style small-signal model: only the derivatives of the DC model remain
+        const lin = transistorModel(comp);
+        const c = nodeOf(comp.id, COLLECTOR);
+        const b = nodeOf(comp.id, BASE);
+        const e = nodeOf(comp.id, EMITTER);
+        system.stampTransconductance(c, e, b, e, lin.gCollectorBe);
+        system.stampTransconductance(c, e, b, c, lin.gCollectorBc);
+        system.stampTransconductance(b, e, b, e, lin.gBaseBe + GMIN);
+        system.stampTransconductance(b, e, b, c, lin.gBaseBc + GMIN);
+      }
+    }
+
+    let X: Complex[];
+    try {
+      X = system.solve();
+    } catch (e) {
+      console.error("Simulation error:", e);
+      return { points: result, error: `Failed to solve circuit at ${frequency} Hz. Check for invalid configurations or isolated components.`, wireNodes };
+    }
+
+    const voltageAt = (node: Node): Complex => {
+      const idx = system.indexOf(node);
+      return idx === undefined ? math.complex(0, 0) : X[idx];
+    };
+
+    const nodeVoltages: { [node: string]: Phasor } = { [topology.groundNode]: toPhasor(math.complex(0, 0)) };
+    topology.nodeIndexMap.forEach((_, node) => {
+      if (topology.internalNodes.has(node)) return;
+      nodeVoltages[node] = toPhasor(voltageAt(node));
+    });
+
+    // Currents flow into terminal 0 and out of terminal 1, as in the DC results
+    const componentCurrents: { [componentId: string]: Phasor } = {};
+    topology.components.forEach(comp => {
+      const v = math.subtract(voltageAt(nodeOf(comp.id, 0)), voltageAt(nodeOf(comp.id, 1))) as Complex;
+      const branch = branchIndexMap.get(comp.id);
+
+      if (branch !== undefined) {
+        componentCurrents[comp.id] = toPhasor(X[branch]);
+      } else if (comp.type === 'spdt') {
+        // Current into COM, as in the DC results
+        const common = voltageAt(nodeOf(comp.id, COMMON));
+        const toContact = (terminal: number, contact: 'nc' | 'no') =>
+          math.divide(math.subtract(common, voltageAt(nodeOf(comp.id, terminal))), switchResistanceOf(comp, contact)) as Complex;
+        componentCurrents[comp.id] = toPhasor(math.add(toContact(NORMALLY_CLOSED, 'nc'), toContact(NORMALLY_OPEN, 'no')) as Complex);
+      } else if (comp.type === 'current') {
+        componentCurrents[comp.id] = toPhasor(stimulusOf(comp));
+      } else if (comp.type === 'vccs') {
+        const vc = math.subtract(voltageAt(nodeOf(comp.id, CONTROL_POSITIVE)), voltageAt(nodeOf(comp.id, CONTROL_NEGATIVE))) as Complex;
+        componentCurrents[comp.id] = toPhasor(math.multiply(vc, comp.value) as Complex);
+      } else if (comp.type === 'cccs') {
+        componentCurrents[comp.id] = toPhasor(math.multiply(X[branchIndexMap.get(senseBranch(comp.id))!], comp.value) as Complex);
+      } else if (comp.type === 'resistor' || comp.type === 'bulb' || comp.type === 'spst') {
+        componentCurrents[comp.id] = toPhasor(math.divide(v, resistanceOf(comp)) as Complex);
+      } else if (comp.type === 'capacitor') {
+        componentCurrents[comp.id] = toPhasor(math.multiply(v, math.complex(0, omega * comp.value)) as Complex);
+      } else if (comp.type === 'diode') {
+        const vd = math.subtract(voltageAt(junctionNodeOf(topology, comp)), voltageAt(nodeOf(comp.id, 1))) as Complex;
+        const gd = junctionCurrent(diodeModelOf(comp), junctionVoltages.get(junctionKey(comp.id))!).conductance + GMIN;
+        componentCurrents[comp.id] = toPhasor(math.multiply(vd, gd) as Complex);
+      } else if (comp.type === 'transistor') {
+        // Collector current, as in the DC results
+        const lin = transistorModel(comp);
+        const vb = voltageAt(nodeOf(comp.id, BASE));
+        const vbe = math.subtract(vb, voltageAt(nodeOf(comp.id, EMITTER))) as Complex;
+        const vbc = math.subtract(vb, voltageAt(nodeOf(comp.id, COLLECTOR))) as Complex;
+        componentCurrents[comp.id] = toPhasor(
+          math.add(math.multiply(vbe, lin.gCollectorBe), math.multiply(vbc, lin.gCollectorBc)) as Complex
+        );
+      }
+    });
+
+    result.push({ frequency, nodeVoltages, componentCurrents });
+  }
+
+  return { points: result, wireNodes };
+}
+
+function toPhasor(value: Complex): Phasor {
+  const magnitude = math.abs(value) as unknown as number;
+  return {
+    magnitude,
+    magnitudeDb: 20 * Math.log10(magnitude),
+    phase: (math.arg(value) * 180) / Math.PI,
+  };
+}
+
+// Complex-valued counterpart of MnaSystem
+class ComplexMnaSystem {
+  readonly size: number;
+  readonly Y: Complex[][];
+  readonly I: Complex[][];
+
+  constructor(private topology: CircuitTopology, branchCount: number) {
+    this.size = topology.nodeIndexMap.size + branchCount;
+    this.Y = Array.from({ length: this.size }, () =>
+      Array.from({ length: this.size }, () => math.complex(0, 0))
+    );
+    this.I = Array.from({ length: this.size }, () => [math.complex(0, 0)]);
+  }
+
+  indexOf(node: Node): number | undefined {
+    return node === this.topology.groundNode ? undefined : this.topology.nodeIndexMap.get(node);
+  }
+
+  private add(row: number, col: number, value: Complex) {
+    this.Y[row][col] = math.add(this.Y[row][col], value) as Complex;
+  }
+
+  stampAdmittance(nodeA: Node, nodeB: Node, admittance: Complex) {
+    const idxA = this.indexOf(nodeA);
+    const idxB = this.indexOf(nodeB);
+    const negated = math.unaryMinus(admittance) as Complex;
+    if (idxA !== undefined) this.add(idxA, idxA, admittance);
+    if (idxB !== undefined) this.add(idxB, idxB, admittance);
+    if (idxA !== undefined && idxB !== undefined) {
+      this.add(idxA, idxB, negated);
+      this.add(idxB, idxA, negated);
+    }
+  }
+
+  stampVoltageSource(nodeP: Node, nodeN: Node, branch: number, voltage: Complex) {
+    const one = math.complex(1, 0);
+    const minusOne = math.complex(-1, 0);
+    const idxP = this.indexOf(nodeP);
+    const idxN = this.indexOf(nodeN);
+    if (idxP !== undefined) {
+      this.add(idxP, branch, one);
+      this.add(branch, idxP, one);
+    }
+    if (idxN !== undefined) {
+      this.add(idxN, branch, minusOne);
+      this.add(branch, idxN, minusOne);
+    }
+    this.I[branch][0] = math.add(this.I[branch][0], voltage) as Complex;
+  }
+
+  // `current` flows out of nodeFrom, through the element, into nodeTo
+  stampCurrentSource(nodeFrom: Node, nodeTo: Node, current: Complex) {
+    const idxFrom = this.indexOf(nodeFrom);
+    const idxTo = this.indexOf(nodeTo);
+    if (idxFrom !== undefined) this.I[idxFrom][0] = math.subtract(this.I[idxFrom][0], current) as Complex;
+    if (idxTo !== undefined) this.I[idxTo][0] = math.add(this.I[idxTo][0], current) as Complex;
+  }
+
+  // g * (V(ctrlP) - V(ctrlN)) flows out of nodeFrom, through the element, into nodeTo
+  stampTransconductance(nodeFrom: Node, nodeTo: Node, ctrlP: Node, ctrlN: Node, g: number) {
+    const rows = [this.indexOf(nodeFrom), this.indexOf(nodeTo)];
+    const cols = [this.indexOf(ctrlP), this.indexOf(ctrlN)];
+    rows.forEach((row, i) => {
+      if (row === undefined) return;
+      cols.forEach((col, j) => {
+        if (col === undefined) return;
+        this.add(row, col, math.complex((i === j ? 1 : -1) * g, 0));
+      });
+    });
+  }
+
+  // V(P) - V(N) = gain * (V(ctrlP) - V(ctrlN)) for a branch stamped as a 0 V source
+  stampVoltageGain(branch: number, ctrlP: Node, ctrlN: Node, gain: number) {
+    const idxP = this.indexOf(ctrlP);
+    const idxN = this.indexOf(ctrlN);
+    if (idxP !== undefined) this.add(branch, idxP, math.complex(-gain, 0));
+    if (idxN !== undefined) this.add(branch, idxN, math.complex(gain, 0));
+  }
+
+  // V(P) - V(N) = r * I(ctrlBranch) for a branch stamped as a 0 V source
+  stampTransresistance(branch: number, ctrlBranch: number, r: number) {
+    this.add(branch, ctrlBranch, math.complex(-r, 0));
+  }
+
+  // gain * I(ctrlBranch) flows out of nodeFrom, through the element, into nodeTo
+  stampCurrentGain(nodeFrom: Node, nodeTo: Node, ctrlBranch: number, gain: number) {
+    const idxFrom = this.indexOf(nodeFrom);
+    const idxTo = this.indexOf(nodeTo);
+    if (idxFrom !== undefined) this.add(idxFrom, ctrlBranch, math.complex(gain, 0));
+    if (idxTo !== undefined) this.add(idxTo, ctrlBranch, math.complex(-gain, 0));
+  }
+
+  // V(A) - V(B) - Z·I = 0 with I the branch current from A to B
+  stampImpedanceBranch(nodeA: Node, nodeB: Node, branch: number, impedance: Complex) {
+    this.stampVoltageSource(nodeA, nodeB, branch, math.complex(0, 0));
+    this.add(branch, branch, math.unaryMinus(impedance) as Complex);
+  }
+
+  solve(): Complex[] {
+    return solveDense(this.Y, this.I.map(row => row[0]));
+  }
+}
+
+// Complex counterpart of the Gaussian elimination in mna.ts. The linearized junctions stamp
+// the same GMIN-sized entries as the DC solve, so only exact zeros count as singular here too.
+function solveDense(matrix: Complex[][], rhs: Complex[]): Complex[] {
+  const n = rhs.length;
+  const A = matrix.map(row => row.slice());
+  const b = rhs.slice();
+  const size = (value: Complex) => math.abs(value) as unknown as number;
+
+  for (let col = 0; col < n; col++) {
+    let pivotRow = col;
+    for (let row = col + 1; row < n; row++) {
+      if (size(A[row][col]) > size(A[pivotRow][col])) pivotRow = row;
+    }
+    const pivotSize = size(A[pivotRow][col]);
+    if (pivotSize === 0 || !Number.isFinite(pivotSize)) {
+      throw new Error('Linear system cannot be solved since matrix is singular');
+    }
+    [A[col], A[pivotRow]] = [A[pivotRow], A[col]];
+    [b[col], b[pivotRow]] = [b[pivotRow], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = math.divide(A[row][col], A[col][col]) as Complex;
+      if (size(factor) === 0) continue;
+      for (let k = col; k < n; k++) A[row][k] = math.subtract(A[row][k], math.multiply(factor, A[col][k])) as Complex;
+      b[row] = math.subtract(b[row], math.multiply(factor, b[col])) as Complex;
+    }
+  }
+
+  const x = new Array<Complex>(n).fill(math.complex(0, 0));
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum = math.subtract(sum, math.multiply(A[row][k], x[k])) as Complex;
+    x[row] = math.divide(sum, A[row][row]) as Complex;
+  }
+  if (x.some(value => !Number.isFinite(value.re) || !Number.isFinite(value.im))) {
+    throw new Error('Linear system produced a non-finite solution');
+  }
+  return x;
+}
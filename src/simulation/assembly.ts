@@ -0,0 +1,416 @@
+// src/simulation/assembly.ts
+import { CircuitComponent } from '../types/types';
+import {
+  CircuitTopology,
+  MnaSystem,
+  MnaSolution,
+  ComponentCurrents,
+  Node,
+  SimulationError,
+  allocateBranches,
+  internalNode,
+  senseBranch,
+} from './mna';
+import {
+  diodeModelOf,
+  bjtModelOf,
+  resistanceOf,
+  junctionCurrent,
+  limitJunctionVoltage,
+  bjtLinearization,
+  COLLECTOR,
+  BASE,
+  EMITTER,
+  OUTPUT_POSITIVE,
+  OUTPUT_NEGATIVE,
+  CONTROL_POSITIVE,
+  CONTROL_NEGATIVE,
+  COMMON,
+  NORMALLY_CLOSED,
+  NORMALLY_OPEN,
+  hasVoltageOutput,
+  sensesCurrent,
+  switchResistanceOf,
+} from './devices';
+
+// Tiny conductance placed across capacitors, inductors and junctions so that nodes only
+// reachable through them still have a DC path and the matrix stays solvable.
+export const GMIN = 1e-12;
+
+export const MAX_NEWTON_ITERATIONS = 200;
+const VOLTAGE_ABSTOL = 1e-6;
+const RELTOL = 1e-3;
+
+// State carried between time steps for capacitors and inductors.
+// Voltage is V(terminal 0) - V(terminal 1), current flows from terminal 0 to terminal 1.
+export interface ReactiveState {
+  voltage: number;
+  current: number;
+}
+
+// Discretised capacitor/inductor: i = geq * v + ieq
+export interface Companion {
+  geq: number;
+  ieq: number;
+}
+
+// How capacitors and inductors enter the MNA system for a particular solve
+export type ReactiveMode =
+  | { kind: 'dc' } // capacitors open, inductors shorted
+  | { kind: 'initial'; states: Map<string, ReactiveState> } // t=0: capacitors hold their voltage, inductors their current
+  | { kind: 'companion'; companions: Map<string, Companion> }; // one transient time step
+
+export interface CircuitSolution {
+  solution: MnaSolution;
+  branchIndexMap: Map<string, number>;
+  // Junction voltages at the converged operating point, keyed by junctionKey()
+  junctionVoltages: Map<string, number>;
+  iterations: number;
+}
+
+// Components that add a branch-current unknown to the system in the given mode
+function needsBranch(comp: CircuitComponent, topology: CircuitTopology, mode: ReactiveMode): boolean {
+  const shorted = topology.nodeOf(comp.id, 0) === topology.nodeOf(comp.id, 1);
+  switch (comp.type) {
+    case 'voltage':
+    case 'vcvs':
+    case 'ccvs':
+      return true;
+    case 'inductor':
+      return mode.kind === 'dc' && !shorted;
+    case 'capacitor':
+      return mode.kind === 'initial' && !shorted;
+    default:
+      return false;
+  }
+}
+
+// A source with both ends of its branch on one node leaves that branch row empty, which no
+// solver can get past; this names the first such source
+export function shortedSourceError(topology: CircuitTopology): SimulationError | null {
+  const { nodeOf } = topology;
+  for (const comp of topology.components) {
+    if (hasVoltageOutput(comp) && nodeOf(comp.id, OUTPUT_POSITIVE) === nodeOf(comp.id, OUTPUT_NEGATIVE)) {
+      const kind = comp.type === 'voltage' ? 'Voltage source' : 'Controlled source';
+      return new SimulationError(`${kind} ${comp.id} is short-circuited (both terminals on the same node).`, comp.id);
+    }
+    if (sensesCurrent(comp) && nodeOf(comp.id, CONTROL_POSITIVE) === nodeOf(comp.id, CONTROL_NEGATIVE)) {
+      return new SimulationError(`Controlled source ${comp.id} has both control pins on the same node, so it senses no branch.`, comp.id);
+    }
+  }
+  return null;
+}
+
+// Anode-side node of the ideal junction: behind the series resistance when there is one
+export function junctionNodeOf(topology: CircuitTopology, comp: CircuitComponent): Node {
+  return diodeModelOf(comp).seriesResistance > 0
+    ? internalNode(comp.id, 'junction')
+    : topology.nodeOf(comp.id, 0);
+}
+
+// Stamps everything except the nonlinear junctions
+function stampLinear(
+  system: MnaSystem,
+  topology: CircuitTopology,
+  branchIndexMap: Map<string, number>,
+  mode: ReactiveMode
+) {
+  for (const comp of topology.components) {
+    const nodeA = topology.nodeOf(comp.id, 0);
+    const nodeB = topology.nodeOf(comp.id, 1);
+    const branch = branchIndexMap.get(comp.id);
+
+    if (comp.type === 'resistor' || comp.type === 'bulb' || comp.type === 'spst') {
+      system.stampConductance(nodeA, nodeB, 1 / resistanceOf(comp));
+    } else if (comp.type === 'spdt') {
+      const common = topology.nodeOf(comp.id, COMMON);
+      system.stampConductance(common, topology.nodeOf(comp.id, NORMALLY_CLOSED), 1 / switchResistanceOf(comp, 'nc'));
+      system.stampConductance(common, topology.nodeOf(comp.id, NORMALLY_OPEN), 1 / switchResistanceOf(comp, 'no'));
+    } else if (comp.type === 'voltage') {
+      // Terminal 0 is positive, terminal 1 is negative
+      system.stampVoltageSource(nodeA, nodeB, branch!, comp.value);
+    } else if (comp.type === 'current') {
+      // Current flows from terminal 0 through the source to terminal 1
+      system.stampCurrentSource(nodeA, nodeB, comp.value);
+    } else if (comp.type === 'vcvs' || comp.type === 'vccs' || comp.type === 'ccvs' || comp.type === 'cccs') {
+      stampControlledSource(system, topology, comp, branchIndexMap);
+    } else if (comp.type === 'capacitor' || comp.type === 'inductor') {
+      if (mode.kind === 'companion') {
+        const companion = mode.companions.get(comp.id)!;
+        system.stampConductance(nodeA, nodeB, companion.geq);
+        system.stampCurrentSource(nodeA, nodeB, companion.ieq);
+      } else if (comp.type === 'capacitor') {
+        if (mode.kind === 'initial' && branch !== undefined) {
+          system.stampVoltageSource(nodeA, nodeB, branch, mode.states.get(comp.id)!.voltage);
+        } else {
+          // Open circuit at DC
+          system.stampConductance(nodeA, nodeB, GMIN);
+        }
+      } else if (mode.kind === 'dc') {
+        // Short circuit at DC: a 0V source whose branch current is the inductor current
+        if (branch !== undefined) system.stampVoltageSource(nodeA, nodeB, branch, 0);
+      } else {
+        system.stampConductance(nodeA, nodeB, GMIN);
+        system.stampCurrentSource(nodeA, nodeB, mode.states.get(comp.id)!.current);
+      }
+    } else if (comp.type === 'diode') {
+      const { seriesResistance } = diodeModelOf(comp);
+      if (seriesResistance > 0) {
+        system.stampConductance(nodeA, junctionNodeOf(topology, comp), 1 / seriesResistance);
+      }
+    }
+  }
+}
+
+// Output between terminals 0 and 1, control between terminals 2 and 3, with `value` as the gain.
+// Current-controlled sources sense the current of a 0 V branch from the positive control pin to
+// the negative one.
+function stampControlledSource(
+  system: MnaSystem,
+  topology: CircuitTopology,
+  comp: CircuitComponent,
+  branchIndexMap: Map<string, number>
+) {
+  const outP = topology.nodeOf(comp.id, OUTPUT_POSITIVE);
+  const outN = topology.nodeOf(comp.id, OUTPUT_NEGATIVE);
+  const ctrlP = topology.nodeOf(comp.id, CONTROL_POSITIVE);
+  const ctrlN = topology.nodeOf(comp.id, CONTROL_NEGATIVE);
+  const branch = branchIndexMap.get(comp.id)!;
+  const sense = branchIndexMap.get(senseBranch(comp.id))!;
+  if (sensesCurrent(comp)) system.stampVoltageSource(ctrlP, ctrlN, sense, 0);
+
+  switch (comp.type) {
+    case 'vcvs':
+      system.stampVoltageSource(outP, outN, branch, 0);
+      system.stampVoltageGain(branch, ctrlP, ctrlN, comp.value);
+      break;
+    case 'vccs':
+      system.stampTransconductance(outP, outN, ctrlP, ctrlN, comp.value);
+      break;
+    case 'ccvs':
+      system.stampVoltageSource(outP, outN, branch, 0);
+      system.stampTransresistance(branch, sense, comp.value);
+      break;
+    case 'cccs':
+      system.stampCurrentGain(outP, outN, sense, comp.value);
+      break;
+  }
+}
+
+// A pn junction whose voltage Newton-Raphson tracks and limits. The voltage is
+// sign * (V(anode) - V(cathode)), so PNP junctions are handled like NPN ones.
+interface JunctionRef {
+  key: string;
+  anode: Node;
+  cathode: Node;
+  sign: number;
+  saturationCurrent: number;
+  emissionCoefficient: number;
+}
+
+// Diodes have one junction keyed by their id, transistors have `<id>:be` and `<id>:bc`
+export const junctionKey = (componentId: string, junction?: 'be' | 'bc') =>
+  junction ? `${componentId}:${junction}` : componentId;
+
+function junctionsOf(topology: CircuitTopology, comp: CircuitComponent): JunctionRef[] {
+  if (comp.type === 'diode') {
+    const model = diodeModelOf(comp);
+    return [{
+      key: junctionKey(comp.id),
+      anode: junctionNodeOf(topology, comp),
+      cathode: topology.nodeOf(comp.id, 1),
+      sign: 1,
+      saturationCurrent: model.saturationCurrent,
+      emissionCoefficient: model.emissionCoefficient,
+    }];
+  }
+  if (comp.type === 'transistor') {
+    const model = bjtModelOf(comp);
+    const sign = model.polarity === 'pnp' ? -1 : 1;
+    const base = topology.nodeOf(comp.id, BASE);
+    const junction = { anode: base, sign, saturationCurrent: model.saturationCurrent, emissionCoefficient: 1 };
+    return [
+      { ...junction, key: junctionKey(comp.id, 'be'), cathode: topology.nodeOf(comp.id, EMITTER) },
+      { ...junction, key: junctionKey(comp.id, 'bc'), cathode: topology.nodeOf(comp.id, COLLECTOR) },
+    ];
+  }
+  return [];
+}
+
+// Stamps the Newton-Raphson linearisation of a nonlinear device around the given junction voltages
+function stampNonlinear(
+  system: MnaSystem,
+  topology: CircuitTopology,
+  comp: CircuitComponent,
+  junctionVoltages: Map<string, number>
+) {
+  if (comp.type === 'diode') {
+    // Conductance gd in parallel with the current source id - gd * vd
+    const vd = junctionVoltages.get(junctionKey(comp.id))!;
+    const { current, conductance } = junctionCurrent(diodeModelOf(comp), vd);
+    const gd = conductance + GMIN;
+    const anode = junctionNodeOf(topology, comp);
+    const cathode = topology.nodeOf(comp.id, 1);
+    system.stampConductance(anode, cathode, gd);
+    system.stampCurrentSource(anode, cathode, current - gd * vd);
+  } else if (comp.type === 'transistor') {
+    const model = bjtModelOf(comp);
+    const sign = model.polarity === 'pnp' ? -1 : 1;
+    const vbe = junctionVoltages.get(junctionKey(comp.id, 'be'))!;
+    const vbc = junctionVoltages.get(junctionKey(comp.id, 'bc'))!;
+    const lin = bjtLinearization(model, vbe, vbc);
+    const c = topology.nodeOf(comp.id, COLLECTOR);
+    const b = topology.nodeOf(comp.id, BASE);
+    const e = topology.nodeOf(comp.id, EMITTER);
+    // Actual (not polarity-normalised) junction voltages at the linearisation point
+    const vbeActual = sign * vbe;
+    const vbcActual = sign * vbc;
+
+    // Collector and base currents both leave through the emitter
+    system.stampTransconductance(c, e, b, e, lin.gCollectorBe);
+    system.stampTransconductance(c, e, b, c, lin.gCollectorBc);
+    system.stampCurrentSource(c, e, lin.collectorCurrent - lin.gCollectorBe * vbeActual - lin.gCollectorBc * vbcActual);
+    system.stampTransconductance(b, e, b, e, lin.gBaseBe + GMIN);
+    system.stampTransconductance(b, e, b, c, lin.gBaseBc + GMIN);
+    system.stampCurrentSource(b, e, lin.baseCurrent - (lin.gBaseBe + GMIN) * vbeActual - (lin.gBaseBc + GMIN) * vbcActual);
+  }
+}
+
+// Assembles and solves the MNA system, iterating Newton-Raphson until every junction
+// voltage settles. Linear circuits finish after a single iteration.
+export function solveCircuit(
+  topology: CircuitTopology,
+  mode: ReactiveMode,
+  initialJunctionVoltages?: Map<string, number>
+): CircuitSolution {
+  const shorted = shortedSourceError(topology);
+  if (shorted) throw shorted;
+
+  const branchIndexMap = allocateBranches(topology, comp => needsBranch(comp, topology, mode));
+  const nonlinear = topology.components.filter(comp => comp.type === 'diode' || comp.type === 'transistor');
+  const junctions = nonlinear.flatMap(comp => junctionsOf(topology, comp));
+  const junctionVoltages = new Map<string, number>(
+    junctions.map(junction => [junction.key, initialJunctionVoltages?.get(junction.key) ?? 0])
+  );
+
+  for (let iteration = 1; iteration <= MAX_NEWTON_ITERATIONS; iteration++) {
+    const system = new MnaSystem(topology, branchIndexMap.size);
+    stampLinear(system, topology, branchIndexMap, mode);
+    nonlinear.forEach(comp => stampNonlinear(system, topology, comp, junctionVoltages));
+
+    let solution: MnaSolution;
+    try {
+      solution = system.solve();
+    } catch (e) {
+      console.error("Simulation error:", e);
+      throw new SimulationError("Failed to solve circuit. Check for invalid configurations, isolated components or loops of voltage sources.");
+    }
+
+    let converged = true;
+    junctions.forEach(junction => {
+      const previous = junctionVoltages.get(junction.key)!;
+      const computed = junction.sign * (solution.voltageAt(junction.anode) - solution.voltageAt(junction.cathode));
+      if (Math.abs(computed - previous) > VOLTAGE_ABSTOL + RELTOL * Math.max(Math.abs(computed), Math.abs(previous))) {
+        converged = false;
+      }
+      junctionVoltages.set(junction.key, limitJunctionVoltage(computed, previous, { ...junction, seriesResistance: 0 }));
+    });
+
+    if (converged) {
+      return { solution, branchIndexMap, junctionVoltages, iterations: iteration };
+    }
+  }
+
+  throw new SimulationError(`Newton-Raphson did not converge after ${MAX_NEWTON_ITERATIONS} iterations. Check diode and transistor orientation and add resistance to limit currents.`);
+}
+
+// All currents are measured flowing into terminal 0 and out of terminal 1 through the
+// component, so a voltage source delivering power reports a negative current.
+// Transistors report the current flowing into the collector, controlled sources their output
+// current and SPDT switches the current into COM.
+export function componentCurrentsOf(
+  topology: CircuitTopology,
+  solved: CircuitSolution,
+  mode: ReactiveMode
+): ComponentCurrents {
+  const { solution, branchIndexMap, junctionVoltages } = solved;
+  const componentCurrents: ComponentCurrents = {};
+
+  topology.components.forEach(comp => {
+    const v = solution.voltageAt(topology.nodeOf(comp.id, 0)) - solution.voltageAt(topology.nodeOf(comp.id, 1));
+    const branch = branchIndexMap.get(comp.id);
+
+    if (comp.type === 'resistor' || comp.type === 'bulb' || comp.type === 'spst') {
+      componentCurrents[comp.id] = v / resistanceOf(comp);
+    } else if (branch !== undefined) {
+      componentCurrents[comp.id] = solution.values[branch];
+    } else if (comp.type === 'spdt') {
+      componentCurrents[comp.id] = spdtCurrents(topology, comp, solution)[COMMON];
+    } else if (comp.type === 'current') {
+      componentCurrents[comp.id] = comp.value;
+    } else if (comp.type === 'vccs') {
+      const vc = solution.voltageAt(topology.nodeOf(comp.id, CONTROL_POSITIVE)) - solution.voltageAt(topology.nodeOf(comp.id, CONTROL_NEGATIVE));
+      componentCurrents[comp.id] = comp.value * vc;
+    } else if (comp.type === 'cccs') {
+      componentCurrents[comp.id] = comp.value * solution.values[branchIndexMap.get(senseBranch(comp.id))!];
+    } else if (comp.type === 'capacitor' || comp.type === 'inductor') {
+      if (mode.kind === 'companion') {
+        const { geq, ieq } = mode.companions.get(comp.id)!;
+        componentCurrents[comp.id] = geq * v + ieq;
+      } else if (mode.kind === 'initial' && comp.type === 'inductor') {
+        componentCurrents[comp.id] = mode.states.get(comp.id)!.current;
+      } else {
+        componentCurrents[comp.id] = 0;
+      }
+    } else if (comp.type === 'diode') {
+      componentCurrents[comp.id] = junctionCurrent(diodeModelOf(comp), junctionVoltages.get(junctionKey(comp.id))!).current;
+    } else if (comp.type === 'transistor') {
+      // Transistors report their collector current; see terminalCurrentsOf for all terminals
+      componentCurrents[comp.id] = transistorCurrents(comp, junctionVoltages)[COLLECTOR];
+    }
+  });
+
+  return componentCurrents;
+}
+
+// Currents flowing into each terminal (collector, base, emitter)
+function transistorCurrents(comp: CircuitComponent, junctionVoltages: Map<string, number>): number[] {
+  const lin = bjtLinearization(
+    bjtModelOf(comp),
+    junctionVoltages.get(junctionKey(comp.id, 'be'))!,
+    junctionVoltages.get(junctionKey(comp.id, 'bc'))!
+  );
+  return [lin.collectorCurrent, lin.baseCurrent, -lin.collectorCurrent - lin.baseCurrent];
+}
+
+// Currents flowing into each terminal (COM, NC, NO)
+function spdtCurrents(topology: CircuitTopology, comp: CircuitComponent, solution: MnaSolution): number[] {
+  const voltage = (terminal: number) => solution.voltageAt(topology.nodeOf(comp.id, terminal));
+  const toClosed = (voltage(COMMON) - voltage(NORMALLY_CLOSED)) / switchResistanceOf(comp, 'nc');
+  const toOpen = (voltage(COMMON) - voltage(NORMALLY_OPEN)) / switchResistanceOf(comp, 'no');
+  return [toClosed + toOpen, -toClosed, -toOpen];
+}
+
+// Per-terminal currents for components with more than two terminals, each measured flowing
+// into the component
+export function terminalCurrentsOf(
+  topology: CircuitTopology,
+  solved: CircuitSolution,
+  componentCurrents: ComponentCurrents
+): { [componentId: string]: number[] } {
+  const terminalCurrents: { [componentId: string]: number[] } = {};
+  topology.components.forEach(comp => {
+    if (comp.type === 'transistor') {
+      terminalCurrents[comp.id] = transistorCurrents(comp, solved.junctionVoltages);
+    } else if (comp.type === 'spdt') {
+      terminalCurrents[comp.id] = spdtCurrents(topology, comp, solved.solution);
+    } else if (comp.type === 'vcvs' || comp.type === 'vccs' || comp.type === 'ccvs' || comp.type === 'cccs') {
+      // Voltage-controlled inputs draw no current
+      const output = componentCurrents[comp.id];
+      const sense = solved.branchIndexMap.get(senseBranch(comp.id));
+      const control = sense === undefined ? 0 : solved.solution.values[sense];
+      terminalCurrents[comp.id] = [output, -output, control, -control];
+    }
+  });
+  return terminalCurrents;
+}
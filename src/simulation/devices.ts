@@ -0,0 +1,166 @@
+// src/simulation/devices.ts
+import { CircuitComponent, DiodeModel, BjtModel, BulbModel, SwitchModel } from '../types/types';
+import { terminalsOf } from '../terminals';
+
+export const THERMAL_VOLTAGE = 0.025852; // kT/q at 300 K
+
+// SPICE defaults, except that no series resistance is assumed
+export const DEFAULT_DIODE_MODEL: DiodeModel = {
+  saturationCurrent: 1e-14,
+  emissionCoefficient: 1,
+  seriesResistance: 0,
+};
+
+export const DEFAULT_BJT_MODEL: BjtModel = {
+  polarity: 'npn',
+  forwardBeta: 100,
+  reverseBeta: 1,
+  saturationCurrent: 1e-14,
+};
+
+// A small 6 V, 0.5 W lamp (72 Ω)
+export const DEFAULT_BULB_MODEL: BulbModel = {
+  ratedVoltage: 6,
+  ratedPower: 0.5,
+};
+
+// An open switch that leaks a nanoamp per volt, and a closed one far below any wiring resistance
+export const DEFAULT_SWITCH_MODEL: SwitchModel = {
+  closed: false,
+  toggleTimes: [],
+  onResistance: 1e-3,
+  offResistance: 1e9,
+};
+
+// Transistor terminal indices (see TERMINAL_DEFINITIONS)
+export const COLLECTOR = 0;
+export const BASE = 1;
+export const EMITTER = 2;
+
+export function diodeModelOf(comp: CircuitComponent): DiodeModel {
+  return { ...DEFAULT_DIODE_MODEL, ...comp.diodeModel };
+}
+
+export function bjtModelOf(comp: CircuitComponent): BjtModel {
+  return { ...DEFAULT_BJT_MODEL, ...comp.bjtModel };
+}
+
+export function bulbModelOf(comp: CircuitComponent): BulbModel {
+  return { ...DEFAULT_BULB_MODEL, ...comp.bulbModel };
+}
+
+export function switchModelOf(comp: CircuitComponent): SwitchModel {
+  return { ...DEFAULT_SWITCH_MODEL, ...comp.switchModel };
+}
+
+// SPDT terminal indices (see TERMINAL_DEFINITIONS)
+export const COMMON = 0;
+export const NORMALLY_CLOSED = 1;
+export const NORMALLY_OPEN = 2;
+
+// Resistance of a switch contact: an SPST's only contact and an SPDT's COM-NO contact are made
+// when the switch is closed, an SPDT's COM-NC contact when it is open
+export function switchResistanceOf(comp: CircuitComponent, contact: 'nc' | 'no' = 'no'): number {
+  const { closed, onResistance, offResistance } = switchModelOf(comp);
+  const touching = comp.type === 'spdt' && contact === 'nc' ? !closed : closed;
+  return touching ? onResistance : offResistance;
+}
+
+// Resistance of the linear two-terminal loads: resistors, bulbs and SPST switches
+export function resistanceOf(comp: CircuitComponent): number {
+  if (comp.type === 'spst') return switchResistanceOf(comp);
+  if (comp.type !== 'bulb') return comp.value;
+  const { ratedVoltage, ratedPower } = bulbModelOf(comp);
+  return (ratedVoltage * ratedVoltage) / ratedPower;
+}
+
+// Controlled-source terminal indices (see TERMINAL_DEFINITIONS)
+export const OUTPUT_POSITIVE = 0;
+export const OUTPUT_NEGATIVE = 1;
+export const CONTROL_POSITIVE = 2;
+export const CONTROL_NEGATIVE = 3;
+
+// Sources whose output is a voltage; their current is an extra unknown of the MNA system
+export const hasVoltageOutput = (comp: CircuitComponent) =>
+  comp.type === 'voltage' || comp.type === 'vcvs' || comp.type === 'ccvs';
+
+// Controlled sources that sense the current through a 0 V branch between their control pins
+export const sensesCurrent = (comp: CircuitComponent) => comp.type === 'ccvs' || comp.type === 'cccs';
+
+// Number of electrical terminals, numbered from 0 as in the pin registry
+export function terminalCountOf(comp: CircuitComponent): number {
+  return terminalsOf(comp).length;
+}
+
+// Names of the extra nodes a component's model needs in addition to its terminals
+export function internalNodesOf(comp: CircuitComponent): string[] {
+  if (comp.type === 'diode' && diodeModelOf(comp).seriesResistance > 0) {
+    return ['junction'];
+  }
+  return [];
+}
+
+// Beyond this exponent the exponential is continued linearly so it can never overflow
+const MAX_EXPONENT = 100;
+
+// Shockley equation and its derivative at junction voltage vd
+export function junctionCurrent(model: DiodeModel, vd: number): { current: number; conductance: number } {
+  const nVt = model.emissionCoefficient * THERMAL_VOLTAGE;
+  const x = vd / nVt;
+  const expTerm = x > MAX_EXPONENT ? Math.exp(MAX_EXPONENT) * (1 + x - MAX_EXPONENT) : Math.exp(x);
+  const slope = x > MAX_EXPONENT ? Math.exp(MAX_EXPONENT) : expTerm;
+  return {
+    current: model.saturationCurrent * (expTerm - 1),
+    conductance: (model.saturationCurrent / nVt) * slope,
+  };
+}
+
+// SPICE-style pn-junction limiting: large forward steps are compressed logarithmically so
+// the exponential cannot overflow and Newton-Raphson does not overshoot.
+export function limitJunctionVoltage(vNew: number, vOld: number, model: DiodeModel): number {
+  const nVt = model.emissionCoefficient * THERMAL_VOLTAGE;
+  const vCrit = nVt * Math.log(nVt / (Math.SQRT2 * model.saturationCurrent));
+
+  if (vNew > vCrit && Math.abs(vNew - vOld) > 2 * nVt) {
+    if (vOld > 0) {
+      const arg = 1 + (vNew - vOld) / nVt;
+      return arg > 0 ? vOld + nVt * Math.log(arg) : vCrit;
+    }
+    return nVt * Math.log(vNew / nVt);
+  }
+  return vNew;
+}
+
+// Collector and base currents of a transistor together with their derivatives, all in
+// actual polarity. vbe and vbc are the polarity-normalised junction voltages
+// (e.g. V(B) - V(E) for an NPN, V(E) - V(B) for a PNP).
+export interface BjtLinearization {
+  collectorCurrent: number; // into the collector
+  baseCurrent: number; // into the base
+  // Derivatives with respect to the actual V(B) - V(E) and V(B) - V(C)
+  gCollectorBe: number;
+  gCollectorBc: number;
+  gBaseBe: number;
+  gBaseBc: number;
+}
+
+export function bjtLinearization(model: BjtModel, vbe: number, vbc: number): BjtLinearization {
+  const sign = model.polarity === 'pnp' ? -1 : 1;
+  const junction = { saturationCurrent: model.saturationCurrent, emissionCoefficient: 1, seriesResistance: 0 };
+  const forward = junctionCurrent(junction, vbe);
+  const reverse = junctionCurrent(junction, vbc);
+
+  // Transport form of Ebers-Moll for an NPN
+  const collectorCurrent = forward.current - reverse.current * (1 + 1 / model.reverseBeta);
+  const baseCurrent = forward.current / model.forwardBeta + reverse.current / model.reverseBeta;
+
+  // The polarity sign cancels in the derivatives: d(sign*I)/d(sign*V) = dI/dV
+  return {
+    collectorCurrent: sign * collectorCurrent,
+    baseCurrent: sign * baseCurrent,
+    gCollectorBe: forward.conductance,
+    gCollectorBc: -reverse.conductance * (1 + 1 / model.reverseBeta),
+    gBaseBe: forward.conductance / model.forwardBeta,
+    gBaseBc: reverse.conductance / model.reverseBeta,
+  };
+}
@@ -0,0 +1,148 @@
+// src/simulation/flatten.ts
+import { CircuitComponent, Wire, WireEnd, SubCircuit, TerminalRef } from '../types/types';
+import { SimulationError, CircuitTopology, Node, PATH_SEPARATOR, buildTopology } from './mna';
+import { isWireJoint } from '../wires';
+
+export interface FlatCircuit {
+  components: CircuitComponent[];
+  wires: Wire[];
+}
+
+// Expands subcircuit instances, recursively, into their internal components and wires so
+// every analysis works on a single flat list of primitive components. Expanded components
+// and wires get hierarchical ids, so results can be traced back to the instance they came from.
+// Throws SimulationError for recursive definitions and for port bindings that point at missing
+// internal components.
+export function flattenCircuit(
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[]
+): FlatCircuit {
+  const flat: FlatCircuit = { components: [], wires: [] };
+  expandLevel(components, wires, subcircuits, TOP_LEVEL, flat);
+  return flat;
+}
+
+interface LevelContext {
+  prefix: string; // instance path of this level, including the trailing separator
+  x: number; // canvas offset of this level
+  y: number;
+  stack: SubCircuit[]; // definitions currently being expanded, outermost first
+}
+
+const TOP_LEVEL: LevelContext = { prefix: '', x: 0, y: 0, stack: [] };
+
+// Expands one level of the hierarchy into `flat` and returns a resolver that maps a terminal
+// of this level (possibly a subcircuit port) to the primitive terminal it is connected to.
+function expandLevel(
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[],
+  context: LevelContext,
+  flat: FlatCircuit
+): (ref: TerminalRef) => TerminalRef | null {
+  // Subcircuit instance id -> (port index -> primitive terminal the port is bound to)
+  const portBindings = new Map<string, TerminalRef[]>();
+
+  components.forEach(comp => {
+    const path = `${context.prefix}${comp.id}`;
+
+    if (comp.type === 'subcircuit' && comp.subcircuitId) {
+      const subcircuitDef = subcircuits.find(s => s.id === comp.subcircuitId);
+      if (!subcircuitDef) {
+        console.warn(`Subcircuit definition not found for ID: ${comp.subcircuitId}`);
+        return; // Skip invalid subcircuit
+      }
+
+      // A definition that is already being expanded further up contains itself
+      const cycleStart = context.stack.findIndex(s => s.id === subcircuitDef.id);
+      if (cycleStart !== -1) {
+        const chain = [...context.stack.slice(cycleStart), subcircuitDef].map(s => `"${s.name}"`).join(' -> ');
+        throw new SimulationError(`Subcircuit ${chain} contains itself (instance ${path}).`, path);
+      }
+
+      const resolveInner = expandLevel(
+        subcircuitDef.internalComponents,
+        subcircuitDef.internalWires,
+        subcircuits,
+        {
+          prefix: `${path}${PATH_SEPARATOR}`,
+          // Internal positions are relative to the instance position
+          x: context.x + comp.x,
+          y: context.y + comp.y,
+          stack: [...context.stack, subcircuitDef],
+        },
+        flat
+      );
+
+      // Ports are numbered inputs first, then outputs, exactly as on the canvas
+      const ports = [...subcircuitDef.inputs, ...subcircuitDef.outputs];
+      portBindings.set(comp.id, ports.map(port => {
+        const target = subcircuitDef.internalComponents.find(c => c.id === port.binding.componentId);
+        const resolved = target ? resolveInner(port.binding) : null;
+        if (!resolved) {
+          throw new SimulationError(
+            `Port "${port.name}" of subcircuit "${subcircuitDef.name}" (instance ${path}) is bound to a missing terminal of ${port.binding.componentId}.`,
+            path
+          );
+        }
+        return resolved;
+      }));
+    } else {
+      flat.components.push({ ...comp, id: path, x: context.x + comp.x, y: context.y + comp.y });
+    }
+  });
+
+  // A wire attached to a subcircuit port really attaches to the terminal the port is bound to
+  const resolve = (ref: TerminalRef): TerminalRef | null => {
+    const bindings = portBindings.get(ref.componentId);
+    if (!bindings) return { componentId: `${context.prefix}${ref.componentId}`, terminal: ref.terminal };
+    return bindings[ref.terminal] ?? null;
+  };
+
+  // Joints keep pointing at the same wire, under its hierarchical id
+  const resolveEnd = (end: WireEnd): WireEnd | null =>
+    isWireJoint(end) ? { ...end, wireId: `${context.prefix}${end.wireId}` } : resolve(end);
+
+  wires.forEach(wire => {
+    const from = resolveEnd(wire.from);
+    const to = resolveEnd(wire.to);
+    if (!from || !to) {
+      console.warn(`Wire ${context.prefix}${wire.id} is attached to a subcircuit port that no longer exists; ignoring it.`);
+      return;
+    }
+    flat.wires.push({ ...wire, id: `${context.prefix}${wire.id}`, from, to });
+  });
+
+  return resolve;
+}
+
+// A flat circuit's nodes, plus the node of each top-level terminal: subcircuit ports resolve to
+// the internal terminal they are bound to, so results can be shown on the schematic as drawn
+export interface PreparedTopology extends CircuitTopology {
+  terminalNodeOf: (componentId: string, terminal: number) => Node | null;
+}
+
+// Nets of the top-level wires, by wire id, so results can be read off the schematic as drawn
+export function wireNodesOf(topology: CircuitTopology, wires: Wire[]): { [wireId: string]: Node } {
+  return Object.fromEntries(wires.map(wire => [wire.id, topology.nodeOfWire(wire.id)]));
+}
+
+// Flattens the hierarchy and resolves the flat circuit's nodes; null when there is nothing to simulate
+export function prepareTopology(
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[]
+): PreparedTopology | null {
+  const flat: FlatCircuit = { components: [], wires: [] };
+  const resolve = expandLevel(components, wires, subcircuits, TOP_LEVEL, flat);
+  const topology = buildTopology(flat.components, flat.wires);
+  if (!topology) return null;
+  return {
+    ...topology,
+    terminalNodeOf: (componentId, terminal) => {
+      const resolved = resolve({ componentId, terminal });
+      return resolved && topology.nodeOf(resolved.componentId, resolved.terminal);
+    },
+  };
+}
@@ -0,0 +1,355 @@
+// src/simulation/mna.ts
+import { CircuitComponent, Wire, WireEnd } from '../types/types';
+import { internalNodesOf, terminalCountOf, sensesCurrent } from './devices';
+import { isWireJoint } from '../wires';
+import { isNetSymbol } from '../terminals';
+
+export type Node = string;
+
+export interface NodeMap {
+  [key: string]: number; // voltage at node (simulated result)
+}
+
+export interface ComponentCurrents {
+  [componentId: string]: number;
+}
+
+// Raised for problems that should be reported to the user through the `error` field of a result.
+// `componentId` is the flat id of the component at fault, when there is one.
+export class SimulationError extends Error {
+  constructor(message: string, readonly componentId?: string) {
+    super(message);
+    this.name = 'SimulationError';
+  }
+}
+
+// Name of a node that lives inside a device model rather than on one of its terminals
+export const internalNode = (componentId: string, name: string): Node => `${componentId}:${name}`;
+
+// Union-Find data structure for node connections
+export class UnionFind {
+  parent: Map<string, string>;
+  constructor() {
+    this.parent = new Map();
+  }
+  find(x: string): string {
+    if (!this.parent.has(x)) this.parent.set(x, x);
+    if (this.parent.get(x) !== x) {
+      this.parent.set(x, this.find(this.parent.get(x)!));
+    }
+    return this.parent.get(x)!;
+  }
+  union(a: string, b: string) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) {
+      this.parent.set(rootB, rootA);
+    }
+  }
+}
+
+export interface CircuitTopology {
+  components: CircuitComponent[];
+  groundNode: Node;
+  // Non-ground nodes mapped to their row/column in the MNA matrix
+  nodeIndexMap: Map<Node, number>;
+  nodeOf: (componentId: string, terminal: number) => Node;
+  nodeOfWire: (wireId: string) => Node;
+  // Device-internal nodes; they get matrix rows but are not reported as circuit nodes
+  internalNodes: Set<Node>;
+}
+
+// Separator of hierarchical instance paths, e.g. `U1/U3/R2` is R2 inside U3 inside U1
+export const PATH_SEPARATOR = '/';
+
+// Name of the reference net, as in SPICE
+export const GROUND_NET = '0';
+
+// Wire connectivity shared by the simulator and the netlist exporter: every terminal and wire
+// resolves to the name of its net. Ground components all join the ground net; without one, the
+// negative terminal of the first voltage source (or else the first component's terminal 0) is ground.
+// Power rails join every rail of the same name, labels join same-named labels at their own
+// level of the hierarchy; one named 0 joins ground, as in SPICE. Net names are GROUND_NET for
+// ground, the rail or label name (with the instance path for labels inside subcircuits) and
+// N1, N2, ... for the rest, in component order.
+// Expects at least one component.
+export function connectTerminals(components: CircuitComponent[], wires: Wire[]): {
+  nodeOf: (componentId: string, terminal: number) => Node;
+  nodeOfWire: (wireId: string) => Node;
+  groundNode: Node;
+} {
+  const uf = new UnionFind();
+  const pinKey = (componentId: string, terminal: number) => `${componentId}_${terminal}`;
+  const wireKey = (id: string) => `wire:${id}`;
+  const netKey = (name: string) => `net:${name}`;
+
+  // Establish initial nodes for each component terminal
+  components.forEach(comp => {
+    for (let terminal = 0; terminal < terminalCountOf(comp); terminal++) {
+      uf.find(pinKey(comp.id, terminal));
+    }
+  });
+
+  // Union nodes connected by wires; a wire ending on another wire joins that wire's net
+  const endKey = (end: WireEnd) => (isWireJoint(end) ? wireKey(end.wireId) : pinKey(end.componentId, end.terminal));
+  wires.forEach(wire => {
+    uf.union(wireKey(wire.id), endKey(wire.from));
+    uf.union(wireKey(wire.id), endKey(wire.to));
+  });
+
+  // Net symbols connect without wires
+  const scopedName = (comp: CircuitComponent) => {
+    const scope = comp.id.slice(0, comp.id.lastIndexOf(PATH_SEPARATOR) + 1);
+    return comp.type === 'label' ? `${scope}${comp.netName ?? ''}` : comp.netName ?? '';
+  };
+  const namedSymbols = [
+    ...components.filter(comp => comp.type === 'rail'),
+    ...components.filter(comp => comp.type === 'label'),
+  ].filter(comp => (comp.netName ?? '') !== '' && scopedName(comp) !== GROUND_NET); // Unnamed symbols join nothing
+  const grounds = components.filter(comp =>
+    comp.type === 'ground' || ((comp.type === 'rail' || comp.type === 'label') && scopedName(comp) === GROUND_NET)
+  );
+  grounds.forEach(comp => uf.union(netKey(GROUND_NET), pinKey(comp.id, 0)));
+  namedSymbols.forEach(comp => uf.union(netKey(scopedName(comp)), pinKey(comp.id, 0)));
+
+  const firstSource = components.find(comp => comp.type === 'voltage');
+  const groundRoot = grounds.length > 0
+    ? uf.find(netKey(GROUND_NET))
+    : uf.find(firstSource ? pinKey(firstSource.id, 1) : pinKey(components[0].id, 0));
+
+  const names = new Map<string, Node>([[groundRoot, GROUND_NET]]);
+  const used = new Set<Node>([GROUND_NET]);
+  namedSymbols.forEach(comp => {
+    const root = uf.find(pinKey(comp.id, 0));
+    if (names.has(root)) return;
+    names.set(root, scopedName(comp));
+    used.add(scopedName(comp));
+  });
+  let next = 1;
+  components.forEach(comp => {
+    for (let terminal = 0; terminal < terminalCountOf(comp); terminal++) {
+      const root = uf.find(pinKey(comp.id, terminal));
+      if (names.has(root)) continue;
+      while (used.has(`N${next}`)) next++;
+      names.set(root, `N${next}`);
+      used.add(`N${next}`);
+    }
+  });
+
+  const nameOf = (key: string) => {
+    const root = uf.find(key);
+    return names.get(root) ?? root;
+  };
+  return {
+    nodeOf: (componentId, terminal) => nameOf(pinKey(componentId, terminal)),
+    nodeOfWire: wireId => nameOf(wireKey(wireId)),
+    groundNode: GROUND_NET,
+  };
+}
+
+// Resolves wires into electrical nodes and numbers every non-ground node.
+// Returns null when there is nothing to simulate.
+export function buildTopology(allComponents: CircuitComponent[], wires: Wire[]): CircuitTopology | null {
+  // Net symbols only take part in connectivity; the matrix is built from the devices
+  const components = allComponents.filter(comp => !isNetSymbol(comp));
+  if (components.length === 0) return null;
+
+  const { nodeOf, nodeOfWire, groundNode } = connectTerminals(allComponents, wires);
+
+  // Map unique root nodes to matrix indices
+  const nodeIndexMap = new Map<Node, number>();
+  components.forEach(comp => {
+    for (let terminal = 0; terminal < terminalCountOf(comp); terminal++) {
+      const node = nodeOf(comp.id, terminal);
+      if (node !== groundNode && !nodeIndexMap.has(node)) {
+        nodeIndexMap.set(node, nodeIndexMap.size);
+      }
+    }
+  });
+
+  // Device models that need extra nodes (e.g. a diode junction behind its series resistance)
+  const internalNodes = new Set<Node>();
+  components.forEach(comp => {
+    internalNodesOf(comp).forEach(name => {
+      const node = internalNode(comp.id, name);
+      internalNodes.add(node);
+      nodeIndexMap.set(node, nodeIndexMap.size);
+    });
+  });
+
+  return { components, groundNode, nodeIndexMap, nodeOf, nodeOfWire, internalNodes };
+}
+
+// Dense Modified Nodal Analysis system. Node rows come first, followed by one
+// row per branch-current unknown (voltage sources, DC inductors, current sensors).
+export class MnaSystem {
+  readonly size: number;
+  readonly G: number[][];
+  readonly I: number[][];
+
+  constructor(private topology: CircuitTopology, branchCount: number) {
+    this.size = topology.nodeIndexMap.size + branchCount;
+    this.G = Array.from({ length: this.size }, () => new Array<number>(this.size).fill(0));
+    this.I = Array.from({ length: this.size }, () => [0]);
+  }
+
+  // Ground is the reference node and has no row/column of its own
+  indexOf(node: Node): number | undefined {
+    return node === this.topology.groundNode ? undefined : this.topology.nodeIndexMap.get(node);
+  }
+
+  stampConductance(nodeA: Node, nodeB: Node, conductance: number) {
+    const idxA = this.indexOf(nodeA);
+    const idxB = this.indexOf(nodeB);
+    if (idxA !== undefined) this.G[idxA][idxA] += conductance;
+    if (idxB !== undefined) this.G[idxB][idxB] += conductance;
+    if (idxA !== undefined && idxB !== undefined) {
+      this.G[idxA][idxB] -= conductance;
+      this.G[idxB][idxA] -= conductance;
+    }
+  }
+
+  // A current source pushing `current` out of nodeFrom, through the element, into nodeTo
+  stampCurrentSource(nodeFrom: Node, nodeTo: Node, current: number) {
+    const idxFrom = this.indexOf(nodeFrom);
+    const idxTo = this.indexOf(nodeTo);
+    if (idxFrom !== undefined) this.I[idxFrom][0] -= current;
+    if (idxTo !== undefined) this.I[idxTo][0] += current;
+  }
+
+  // Voltage-controlled current source: g * (V(ctrlP) - V(ctrlN)) flows out of nodeFrom,
+  // through the element, into nodeTo
+  stampTransconductance(nodeFrom: Node, nodeTo: Node, ctrlP: Node, ctrlN: Node, g: number) {
+    const rows = [this.indexOf(nodeFrom), this.indexOf(nodeTo)];
+    const cols = [this.indexOf(ctrlP), this.indexOf(ctrlN)];
+    rows.forEach((row, i) => {
+      if (row === undefined) return;
+      cols.forEach((col, j) => {
+        if (col === undefined) return;
+        this.G[row][col] += (i === j ? 1 : -1) * g;
+      });
+    });
+  }
+
+  // The branch current unknown flows from the positive node through the source to the negative node
+  stampVoltageSource(nodeP: Node, nodeN: Node, branch: number, voltage: number) {
+    const idxP = this.indexOf(nodeP);
+    const idxN = this.indexOf(nodeN);
+    if (idxP !== undefined) {
+      this.G[idxP][branch] += 1;
+      this.G[branch][idxP] += 1;
+    }
+    if (idxN !== undefined) {
+      this.G[idxN][branch] -= 1;
+      this.G[branch][idxN] -= 1;
+    }
+    this.I[branch][0] += voltage;
+  }
+
+  // Makes a branch row's voltage follow a control voltage: V(P) - V(N) = gain * (V(ctrlP) - V(ctrlN)),
+  // with the branch stamped as a 0 V source between P and N
+  stampVoltageGain(branch: number, ctrlP: Node, ctrlN: Node, gain: number) {
+    const idxP = this.indexOf(ctrlP);
+    const idxN = this.indexOf(ctrlN);
+    if (idxP !== undefined) this.G[branch][idxP] -= gain;
+    if (idxN !== undefined) this.G[branch][idxN] += gain;
+  }
+
+  // Makes a branch row's voltage follow another branch's current: V(P) - V(N) = r * I(ctrlBranch)
+  stampTransresistance(branch: number, ctrlBranch: number, r: number) {
+    this.G[branch][ctrlBranch] -= r;
+  }
+
+  // Current-controlled current source: gain * I(ctrlBranch) flows out of nodeFrom, through the
+  // element, into nodeTo
+  stampCurrentGain(nodeFrom: Node, nodeTo: Node, ctrlBranch: number, gain: number) {
+    const idxFrom = this.indexOf(nodeFrom);
+    const idxTo = this.indexOf(nodeTo);
+    if (idxFrom !== undefined) this.G[idxFrom][ctrlBranch] += gain;
+    if (idxTo !== undefined) this.G[idxTo][ctrlBranch] -= gain;
+  }
+
+  // Throws when the matrix is singular (floating nodes, loops of voltage sources, ...)
+  solve(): MnaSolution {
+    return new MnaSolution(this, solveDense(this.G, this.I.map(row => row[0])));
+  }
+}
+
+// Gaussian elimination with partial pivoting. mathjs' lusolve treats pivots below
+// machine epsilon as zero, which rejects valid systems that mix forward-biased
+// junction conductances with GMIN-sized entries, so only exact zeros count as singular here.
+function solveDense(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const A = matrix.map(row => row.slice());
+  const b = rhs.slice();
+
+  for (let col = 0; col < n; col++) {
+    let pivotRow = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivotRow][col])) pivotRow = row;
+    }
+    if (A[pivotRow][col] === 0 || !Number.isFinite(A[pivotRow][col])) {
+      throw new Error('Linear system cannot be solved since matrix is singular');
+    }
+    [A[col], A[pivotRow]] = [A[pivotRow], A[col]];
+    [b[col], b[pivotRow]] = [b[pivotRow], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = A[row][col] / A[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) A[row][k] -= factor * A[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= A[row][k] * x[k];
+    x[row] = sum / A[row][row];
+  }
+  if (x.some(value => !Number.isFinite(value))) {
+    throw new Error('Linear system produced a non-finite solution');
+  }
+  return x;
+}
+
+export class MnaSolution {
+  constructor(private system: MnaSystem, readonly values: number[]) {}
+
+  voltageAt(node: Node): number {
+    const idx = this.system.indexOf(node);
+    return idx === undefined ? 0 : this.values[idx];
+  }
+
+  nodeVoltages(topology: CircuitTopology): NodeMap {
+    const nodeVoltages: NodeMap = {};
+    nodeVoltages[topology.groundNode] = 0; // Ground node is 0V
+    topology.nodeIndexMap.forEach((_, node) => {
+      if (topology.internalNodes.has(node)) return;
+      nodeVoltages[node] = this.voltageAt(node);
+    });
+    return nodeVoltages;
+  }
+}
+
+// Key of the 0 V branch whose current a current-controlled source senses
+export const senseBranch = (componentId: string): string => `${componentId}:sense`;
+
+// Assigns consecutive branch rows, after the node rows, to the components matching `predicate`.
+// Current-controlled sources always get a row for their sense branch as well.
+export function allocateBranches(
+  topology: CircuitTopology,
+  predicate: (comp: CircuitComponent) => boolean
+): Map<string, number> {
+  const branchIndexMap = new Map<string, number>();
+  topology.components.forEach(comp => {
+    if (predicate(comp)) {
+      branchIndexMap.set(comp.id, topology.nodeIndexMap.size + branchIndexMap.size);
+    }
+    if (sensesCurrent(comp)) {
+      branchIndexMap.set(senseBranch(comp.id), topology.nodeIndexMap.size + branchIndexMap.size);
+    }
+  });
+  return branchIndexMap;
+}
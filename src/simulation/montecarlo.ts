@@ -0,0 +1,128 @@
+// src/simulation/montecarlo.ts
+// Tolerance analyses. Monte Carlo re-runs an analysis with every toleranced component drawn at
+// random within its tolerance; worst case runs every corner, with each part at one end of its
+// range. Like the sweeps (src/simulation/sweep.ts) they work on copies of the circuit. Only
+// top-level components vary; parts inside subcircuits keep their exact values.
+import { CircuitComponent, Tolerance } from '../types/types';
+import { ParametricRun, withValues, hasSweepableValue, MAX_SWEEP_STEPS } from './sweep';
+
+export const MAX_MONTE_CARLO_RUNS = 10000;
+
+// Relative tolerance of a component, 0 for exact parts
+export const toleranceOf = (component: CircuitComponent): number =>
+  hasSweepableValue(component) ? (component.tolerance?.percent ?? 0) / 100 : 0;
+
+// Deterministic generator (mulberry32) returning numbers in [0, 1), so a seed always gives the
+// same runs
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Relative deviation drawn from the part's distribution: uniform over ±tolerance, or Gaussian with
+// the tolerance at 3σ, cut off at the tolerance since such parts would fail the maker's test
+function deviation(tolerance: number, distribution: Tolerance['distribution'], random: () => number): number {
+  if (distribution === 'gaussian') {
+    const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random()); // Box-Muller
+    return Math.max(-tolerance, Math.min(tolerance, (normal * tolerance) / 3));
+  }
+  return tolerance * (2 * random() - 1);
+}
+
+export interface ToleranceRuns<T> {
+  nominal: T; // the circuit with exact values
+  runs: ParametricRun<T>[]; // the varied values of each run
+  error?: string;
+}
+
+// N runs with random values; the same seed gives the same values
+export function monteCarlo<T>(
+  components: CircuitComponent[],
+  options: { runs: number; seed: number },
+  analyse: (components: CircuitComponent[]) => T
+): ToleranceRuns<T> {
+  const nominal = analyse(components);
+  const varied = components.filter(comp => toleranceOf(comp) > 0);
+  if (varied.length === 0) return { nominal, runs: [], error: 'No component has a tolerance.' };
+  if (!Number.isInteger(options.runs) || options.runs < 1 || options.runs > MAX_MONTE_CARLO_RUNS) {
+    return { nominal, runs: [], error: `Monte Carlo needs between 1 and ${MAX_MONTE_CARLO_RUNS} runs.` };
+  }
+
+  const random = seededRandom(options.seed);
+  const runs = Array.from({ length: options.runs }, () => {
+    const values = Object.fromEntries(varied.map(comp => [
+      comp.id,
+      comp.value * (1 + deviation(toleranceOf(comp), comp.tolerance!.distribution, random)),
+    ]));
+    return { values, result: analyse(withValues(components, values)) };
+  });
+  return { nominal, runs };
+}
+
+// Every combination of toleranced parts at their low or high limit. The extremes of a circuit
+// that is monotonic in each part are among these corners.
+export function worstCase<T>(
+  components: CircuitComponent[],
+  analyse: (components: CircuitComponent[]) => T
+): ToleranceRuns<T> {
+  const nominal = analyse(components);
+  const varied = components.filter(comp => toleranceOf(comp) > 0);
+  if (varied.length === 0) return { nominal, runs: [], error: 'No component has a tolerance.' };
+  const cornerCount = Math.pow(2, varied.length);
+  if (cornerCount > MAX_SWEEP_STEPS) {
+    return { nominal, runs: [], error: `${varied.length} toleranced parts give ${cornerCount} corners (limit is ${MAX_SWEEP_STEPS}).` };
+  }
+
+  const runs = Array.from({ length: cornerCount }, (_, corner) => {
+    const values = Object.fromEntries(varied.map((comp, bit) => [
+      comp.id,
+      comp.value * (1 + ((corner >> bit) & 1 ? 1 : -1) * toleranceOf(comp)),
+    ]));
+    return { values, result: analyse(withValues(components, values)) };
+  });
+  return { nominal, runs };
+}
+
+export interface Statistics {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  sigma: number; // sample standard deviation
+}
+
+// Summary of the finite samples; null when there are none
+export function statistics(samples: number[]): Statistics | null {
+  const finite = samples.filter(Number.isFinite);
+  if (finite.length === 0) return null;
+  const mean = finite.reduce((sum, x) => sum + x, 0) / finite.length;
+  const variance = finite.length > 1 ? finite.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (finite.length - 1) : 0;
+  return { count: finite.length, min: Math.min(...finite), max: Math.max(...finite), mean, sigma: Math.sqrt(variance) };
+}
+
+export interface Histogram {
+  start: number; // lower edge of the first bin
+  binWidth: number;
+  counts: number[];
+}
+
+// Equal-width bins spanning the finite samples
+export function histogram(samples: number[], bins: number): Histogram | null {
+  const stats = statistics(samples);
+  if (!stats) return null;
+  const span = stats.max - stats.min;
+  // All samples equal: one bin around them
+  const binWidth = span > 0 ? span / bins : Math.abs(stats.min) * 1e-3 || 1e-3;
+  const start = span > 0 ? stats.min : stats.min - binWidth / 2;
+  const counts = new Array(span > 0 ? bins : 1).fill(0);
+  samples.filter(Number.isFinite).forEach(x => {
+    counts[Math.min(counts.length - 1, Math.floor((x - start) / binWidth))]++;
+  });
+  return { start, binWidth, counts };
+}
@@ -0,0 +1,137 @@
+// src/simulation/sweep.ts
+// DC and parametric sweeps. Both re-run an existing analysis on copies of the circuit with one
+// component value changed per step, so the schematic being edited is never touched.
+import { CircuitComponent, Wire, SubCircuit } from '../types/types';
+import { simulateCircuit } from './simulator';
+import { Node, NodeMap, ComponentCurrents } from './mna';
+
+// How a swept value steps: from start to stop in fixed increments, a fixed number of points per
+// decade (like SPICE .DC DEC), or through a list
+export type SweepSteps =
+  | { kind: 'linear'; start: number; stop: number; step: number }
+  | { kind: 'decade'; start: number; stop: number; pointsPerDecade: number }
+  | { kind: 'list'; values: number[] };
+
+export interface SweepParameter {
+  componentId: string; // top-level component whose value is stepped
+  steps: SweepSteps;
+}
+
+// Guards the UI against sweeps that would take minutes; applies to the total of nested sweeps
+export const MAX_SWEEP_STEPS = 1000;
+
+// Components whose `value` alone describes them, so stepping it means something. For
+// controlled sources that is the gain.
+export const hasSweepableValue = (component: CircuitComponent) =>
+  ['resistor', 'capacitor', 'inductor', 'voltage', 'current', 'vcvs', 'vccs', 'ccvs', 'cccs'].includes(component.type);
+
+// Independent sources, the only components a DC sweep can step
+export const isSweepSource = (component: CircuitComponent) => component.type === 'voltage' || component.type === 'current';
+
+// The values a sweep steps through, or an error message for steps that describe no sweep
+export function sweepValues(steps: SweepSteps): number[] | string {
+  if (steps.kind === 'list') {
+    if (steps.values.length === 0 || !steps.values.every(Number.isFinite)) return 'A list sweep needs at least one number.';
+    return steps.values;
+  }
+  const { start, stop } = steps;
+  if (!Number.isFinite(start) || !Number.isFinite(stop)) return 'A sweep needs a start and a stop value.';
+
+  let count: number;
+  let valueAt: (i: number) => number;
+  if (steps.kind === 'linear') {
+    if (!(steps.step > 0)) return 'A linear sweep needs a positive step.';
+    const direction = stop >= start ? 1 : -1;
+    count = Math.floor(Math.abs(stop - start) / steps.step + 1e-9) + 1;
+    valueAt = i => start + direction * i * steps.step;
+  } else {
+    if (!(start > 0) || !(stop > 0)) return 'A decade sweep needs positive start and stop values.';
+    if (!(steps.pointsPerDecade >= 1)) return 'A decade sweep needs at least one point per decade.';
+    const decades = Math.log10(stop / start);
+    count = Math.floor(Math.abs(decades) * steps.pointsPerDecade + 1e-9) + 1;
+    valueAt = i => start * Math.pow(10, (Math.sign(decades) * i) / steps.pointsPerDecade);
+  }
+  if (count > MAX_SWEEP_STEPS) return `The sweep would need ${count} steps (limit is ${MAX_SWEEP_STEPS}).`;
+  return Array.from({ length: count }, (_, i) => valueAt(i));
+}
+
+// A copy of the circuit with some component values replaced
+export function withValues(components: CircuitComponent[], values: { [componentId: string]: number }): CircuitComponent[] {
+  return components.map(comp => (comp.id in values ? { ...comp, value: values[comp.id] } : comp));
+}
+
+export interface DcSweepPoint {
+  value: number; // source value at this step
+  nodeVoltages: NodeMap;
+  componentCurrents: ComponentCurrents;
+}
+
+export interface DcSweepResult {
+  sourceId: string;
+  points: DcSweepPoint[];
+  error?: string;
+  wireNodes?: { [wireId: string]: Node }; // Nets of the top-level wires, for voltage probes
+}
+
+// DC operating point at every value of one source, e.g. for I-V curves
+export function simulateDcSweep(
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[],
+  sweep: SweepParameter
+): DcSweepResult {
+  const { componentId: sourceId } = sweep;
+  const source = components.find(comp => comp.id === sourceId);
+  if (!source || !isSweepSource(source)) {
+    return { sourceId, points: [], error: 'A DC sweep needs an independent source to step.' };
+  }
+  const values = sweepValues(sweep.steps);
+  if (typeof values === 'string') return { sourceId, points: [], error: values };
+
+  const points: DcSweepPoint[] = [];
+  let wireNodes: { [wireId: string]: Node } | undefined;
+  for (const value of values) {
+    const result = simulateCircuit(withValues(components, { [sourceId]: value }), wires, subcircuits);
+    if (result.error) return { sourceId, points, error: `Failed at ${sourceId} = ${value}: ${result.error}`, wireNodes };
+    wireNodes = result.wireNodes;
+    points.push({ value, nodeVoltages: result.nodeVoltages, componentCurrents: result.componentCurrents });
+  }
+  return { sourceId, points, wireNodes };
+}
+
+// One run of a parametric sweep: the component values it used and what the analysis gave
+export interface ParametricRun<T> {
+  values: { [componentId: string]: number };
+  result: T;
+}
+
+// Repeats an analysis for every combination of parameter values. Parameters nest in order:
+// the first is the outer loop, so its value changes slowest.
+export function parametricSweep<T>(
+  components: CircuitComponent[],
+  parameters: SweepParameter[],
+  analyse: (components: CircuitComponent[]) => T
+): { runs: ParametricRun<T>[]; error?: string } {
+  const stepLists: number[][] = [];
+  for (const parameter of parameters) {
+    const component = components.find(comp => comp.id === parameter.componentId);
+    if (!component || !hasSweepableValue(component)) {
+      return { runs: [], error: 'A parametric sweep can only step resistors, capacitors, inductors, sources and gains.' };
+    }
+    const values = sweepValues(parameter.steps);
+    if (typeof values === 'string') return { runs: [], error: values };
+    stepLists.push(values);
+  }
+  const total = stepLists.reduce((product, list) => product * list.length, 1);
+  if (total > MAX_SWEEP_STEPS) {
+    return { runs: [], error: `The nested sweeps would need ${total} runs (limit is ${MAX_SWEEP_STEPS}).` };
+  }
+
+  let assignments: { [componentId: string]: number }[] = [{}];
+  parameters.forEach((parameter, i) => {
+    assignments = assignments.flatMap(assignment =>
+      stepLists[i].map(value => ({ ...assignment, [parameter.componentId]: value }))
+    );
+  });
+  return { runs: assignments.map(values => ({ values, result: analyse(withValues(components, values)) })) };
+}
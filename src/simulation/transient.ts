@@ -0,0 +1,164 @@
+// src/simulation/transient.ts
+import { CircuitComponent, Wire, SubCircuit } from '../types/types';
+import { prepareTopology, wireNodesOf } from './flatten';
+import { CircuitTopology, Node, NodeMap, ComponentCurrents, SimulationError } from './mna';
+import { solveCircuit, componentCurrentsOf, Companion, ReactiveMode, ReactiveState } from './assembly';
+import { componentAtTime } from './waveforms';
+
+export type IntegrationMethod = 'backward-euler' | 'trapezoidal';
+
+export interface TransientOptions {
+  stopTime: number; // seconds
+  timeStep: number; // seconds
+  method?: IntegrationMethod; // defaults to trapezoidal
+  // 'zero' starts with discharged capacitors and no inductor current (like SPICE UIC),
+  // 'operatingPoint' starts from the DC solution of simulateCircuit.
+  initialConditions?: 'zero' | 'operatingPoint';
+}
+
+export interface TransientPoint {
+  time: number;
+  nodeVoltages: NodeMap;
+  componentCurrents: ComponentCurrents;
+  iterations: number; // Newton-Raphson iterations needed for this point
+}
+
+export interface TransientResult {
+  points: TransientPoint[];
+  error?: string;
+  wireNodes?: { [wireId: string]: Node }; // Nets of the top-level wires, for voltage probes
+}
+
+// Guards the UI against accidentally requesting millions of points
+export const MAX_TIME_STEPS = 100000;
+
+export function simulateTransient(
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[],
+  options: TransientOptions
+): TransientResult {
+  const { stopTime, timeStep } = options;
+  const method = options.method ?? 'trapezoidal';
+
+  if (!(stopTime > 0) || !(timeStep > 0)) {
+    return { points: [], error: 'Transient analysis needs a positive stop time and time step.' };
+  }
+  const stepCount = Math.ceil(stopTime / timeStep - 1e-9);
+  if (stepCount > MAX_TIME_STEPS) {
+    return { points: [], error: `Transient analysis would need ${stepCount} time steps (limit is ${MAX_TIME_STEPS}). Increase the time step.` };
+  }
+
+  let prepared: CircuitTopology | null;
+  try {
+    prepared = prepareTopology(components, wires, subcircuits);
+  } catch (e) {
+    if (!(e instanceof SimulationError)) throw e;
+    return { points: [], error: e.message };
+  }
+  if (!prepared) {
+    return { points: [] };
+  }
+  const topology = prepared;
+  const { nodeOf } = topology;
+  const wireNodes = wireNodesOf(topology, wires);
+  // Source waveforms and switch toggles enter as the values parts have at each time point;
+  // with fixed time steps, edges shorter than a step are smoothed over
+  const circuitAt = (time: number): CircuitTopology => (
+    { ...topology, components: topology.components.map(comp => componentAtTime(comp, time)) }
+  );
+  const reactive = topology.components.filter(comp => comp.type === 'capacitor' || comp.type === 'inductor');
+  const points: TransientPoint[] = [];
+
+  // --- Initial state ---
+  // 'zero': capacitors hold 0V and inductors carry 0A at t=0
+  const states = new Map<string, ReactiveState>();
+  reactive.forEach(comp => states.set(comp.id, { voltage: 0, current: 0 }));
+  const initialMode: ReactiveMode = options.initialConditions === 'operatingPoint'
+    ? { kind: 'dc' }
+    : { kind: 'initial', states };
+
+  let junctionVoltages: Map<string, number>;
+  try {
+    const initial = circuitAt(0);
+    const solved = solveCircuit(initial, initialMode);
+    const nodeVoltages = solved.solution.nodeVoltages(topology);
+    const componentCurrents = componentCurrentsOf(initial, solved, initialMode);
+    points.push({ time: 0, nodeVoltages, componentCurrents, iterations: solved.iterations });
+    junctionVoltages = solved.junctionVoltages;
+
+    // The trapezoidal rule also needs the t=0 capacitor currents and inductor voltages
+    reactive.forEach(comp => {
+      const voltage = solved.solution.voltageAt(nodeOf(comp.id, 0)) - solved.solution.voltageAt(nodeOf(comp.id, 1));
+      states.set(comp.id, { voltage, current: componentCurrents[comp.id] ?? 0 });
+    });
+  } catch (e) {
+    if (!(e instanceof SimulationError)) throw e;
+    const hint = initialMode.kind === 'initial'
+      ? ' A capacitor may be connected directly across a voltage source; try starting from the operating point.'
+      : '';
+    return { points: [], error: `Failed to solve the initial state: ${e.message}${hint}`, wireNodes };
+  }
+
+  // --- Time stepping with companion models ---
+  let previousTime = 0;
+
+  for (let step = 1; step <= stepCount; step++) {
+    const time = Math.min(step * timeStep, stopTime);
+    const h = time - previousTime;
+    previousTime = time;
+
+    const companions = new Map<string, Companion>();
+    reactive.forEach(comp => companions.set(comp.id, companionModel(comp, states.get(comp.id)!, h, method)));
+    const mode: ReactiveMode = { kind: 'companion', companions };
+
+    try {
+      // Start Newton-Raphson from the previous time point's junction voltages
+      const present = circuitAt(time);
+      const solved = solveCircuit(present, mode, junctionVoltages);
+      const componentCurrents = componentCurrentsOf(present, solved, mode);
+      junctionVoltages = solved.junctionVoltages;
+
+      reactive.forEach(comp => {
+        const voltage = solved.solution.voltageAt(nodeOf(comp.id, 0)) - solved.solution.voltageAt(nodeOf(comp.id, 1));
+        states.set(comp.id, { voltage, current: componentCurrents[comp.id] });
+      });
+
+      points.push({
+        time,
+        nodeVoltages: solved.solution.nodeVoltages(topology),
+        componentCurrents,
+        iterations: solved.iterations,
+      });
+    } catch (e) {
+      if (!(e instanceof SimulationError)) throw e;
+      return { points, error: `Failed at t=${time}s: ${e.message}`, wireNodes };
+    }
+  }
+
+  return { points, wireNodes };
+}
+
+// Backward Euler and trapezoidal discretisations of i = C dv/dt and v = L di/dt
+function companionModel(
+  comp: CircuitComponent,
+  state: ReactiveState,
+  h: number,
+  method: IntegrationMethod
+): Companion {
+  if (comp.type === 'capacitor') {
+    if (method === 'backward-euler') {
+      const geq = comp.value / h;
+      return { geq, ieq: -geq * state.voltage };
+    }
+    const geq = (2 * comp.value) / h;
+    return { geq, ieq: -geq * state.voltage - state.current };
+  }
+
+  // Inductor
+  if (method === 'backward-euler') {
+    return { geq: h / comp.value, ieq: state.current };
+  }
+  const geq = h / (2 * comp.value);
+  return { geq, ieq: state.current + geq * state.voltage };
+}
@@ -0,0 +1,94 @@
+// src/simulation/waveforms.ts
+// Time-dependent parts for transient analysis: source waveforms (SIN, PULSE and PWL, with the
+// SPICE definitions) and switches that flip at set times. The solver itself only sees constant
+// values, so the transient analysis asks for the circuit as it is at each time point.
+import { CircuitComponent, SourceWaveform, SwitchModel } from '../types/types';
+import { parseSpiceNumber } from '../spice/units';
+import { switchModelOf } from './devices';
+
+export function waveformValue(waveform: SourceWaveform, time: number): number {
+  switch (waveform.kind) {
+    case 'sin': {
+      const { offset, amplitude, frequency, phase, delay } = waveform;
+      const elapsed = Math.max(0, time - delay);
+      return offset + amplitude * Math.sin(2 * Math.PI * frequency * elapsed + (phase * Math.PI) / 180);
+    }
+    case 'pulse': {
+      const { initial, pulsed, delay, rise, fall, width, period } = waveform;
+      if (time < delay) return initial;
+      const t = period > 0 ? (time - delay) % period : time - delay;
+      if (t < rise) return initial + ((pulsed - initial) * t) / rise;
+      if (t <= rise + width) return pulsed;
+      if (t < rise + width + fall) return pulsed + ((initial - pulsed) * (t - rise - width)) / fall;
+      return initial;
+    }
+    case 'pwl': {
+      const { points } = waveform;
+      if (points.length === 0) return 0;
+      if (time <= points[0].time) return points[0].value;
+      for (let i = 1; i < points.length; i++) {
+        const [a, b] = [points[i - 1], points[i]];
+        if (time <= b.time) return b.time === a.time ? b.value : a.value + ((b.value - a.value) * (time - a.time)) / (b.time - a.time);
+      }
+      return points[points.length - 1].value;
+    }
+  }
+}
+
+// A switch flips at each of its toggle times, starting from its DC state
+export function switchClosedAt(model: SwitchModel, time: number): boolean {
+  const flips = model.toggleTimes.filter(t => t <= time).length;
+  return flips % 2 === 1 ? !model.closed : model.closed;
+}
+
+// The component with its value or state at `time`; parts that do not change are returned as is
+export function componentAtTime(comp: CircuitComponent, time: number): CircuitComponent {
+  if (comp.waveform && (comp.type === 'voltage' || comp.type === 'current')) {
+    return { ...comp, value: waveformValue(comp.waveform, time) };
+  }
+  if ((comp.type === 'spst' || comp.type === 'spdt') && comp.switchModel?.toggleTimes?.length) {
+    return { ...comp, switchModel: { ...comp.switchModel, closed: switchClosedAt(switchModelOf(comp), time) } };
+  }
+  return comp;
+}
+
+// How long a preview needs to show the waveform's character: two cycles after the delay, the
+// single pulse, or the whole table
+export function waveformSpan(waveform: SourceWaveform): number {
+  switch (waveform.kind) {
+    case 'sin':
+      return waveform.delay + (waveform.frequency > 0 ? 2 / waveform.frequency : 1);
+    case 'pulse': {
+      const { delay, rise, width, fall, period } = waveform;
+      return delay + (period > 0 ? 2 * period : 2 * (rise + width + fall)) || 1;
+    }
+    case 'pwl': {
+      const last = waveform.points[waveform.points.length - 1];
+      return last && last.time > 0 ? last.time : 1;
+    }
+  }
+}
+
+// Reads PWL points from a table, one "time value" pair per line separated by spaces, tabs,
+// commas or semicolons, as pasted from a spreadsheet or a CSV file. A header line is skipped.
+// Returns an error message when the text holds no valid table.
+export function parsePwlTable(text: string): { time: number; value: number }[] | string {
+  const points: { time: number; value: number }[] = [];
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+  for (let i = 0; i < lines.length; i++) {
+    const fields = lines[i].split(/[\s,;]+/);
+    const [time, value] = fields.map(parseSpiceNumber);
+    if (time === null || value === null || value === undefined) {
+      if (i === 0) continue; // Column headings
+      return `Line ${i + 1} is not a time and a value.`;
+    }
+    if (points.length > 0 && time < points[points.length - 1].time) return `Line ${i + 1} goes back in time.`;
+    points.push({ time, value });
+  }
+  if (points.length === 0) return 'The table needs at least one time and value.';
+  return points;
+}
+
+// Text of PWL points in the form parsePwlTable reads
+export const formatPwlTable = (points: { time: number; value: number }[]) =>
+  points.map(point => `${point.time}, ${point.value}`).join('\n');
@@ -0,0 +1,315 @@
+// src/spice/exporter.ts
+// Writes the schematic as a SPICE deck for ngspice/LTspice. Every SubCircuit in the library
+// becomes a .SUBCKT block and instances become X lines, so the hierarchy survives the export.
+// The output depends only on the circuit, never on timing or iteration order of hash maps.
+import { CircuitComponent, ComponentType, Wire, SubCircuit, Terminal, TerminalRef, SourceWaveform } from '../types/types';
+import { connectTerminals, Node } from '../simulation/mna';
+import { diodeModelOf, bjtModelOf, resistanceOf, switchModelOf, switchResistanceOf } from '../simulation/devices';
+import { TransientOptions } from '../simulation/transient';
+import { AcSweepOptions } from '../simulation/ac';
+import { AnalysisSettings } from '../simulation/simulator';
+import { terminalsOf, isNetSymbol } from '../terminals';
+import { formatSpiceNumber } from './units';
+
+export interface SpiceAnalyses {
+  operatingPoint?: boolean; // .OP, emitted when no other analysis is requested
+  transient?: TransientOptions;
+  ac?: AcSweepOptions;
+}
+
+// Cards for the analysis set up in the waveform viewer. DC sweeps have no card, so they fall
+// back to the operating point.
+export function spiceAnalysesOf(settings: AnalysisSettings): SpiceAnalyses {
+  if (settings.kind === 'transient') return { transient: settings.transient };
+  if (settings.kind === 'ac') return { ac: settings.ac };
+  return { operatingPoint: true };
+}
+
+export const SPICE_GROUND = '0';
+
+// Bulbs are written as resistors with this designator prefix, so an import can tell them apart
+export const BULB_PREFIX = 'RLAMP';
+
+// Reference designator prefix per component type.
+// Ground, labels and rails are not elements, they only name nodes.
+const DESIGNATOR_PREFIX: Record<Exclude<ComponentType, 'ground' | 'label' | 'rail'>, string> = {
+  resistor: 'R',
+  capacitor: 'C',
+  inductor: 'L',
+  voltage: 'V',
+  current: 'I',
+  vcvs: 'E',
+  vccs: 'G',
+  ccvs: 'H',
+  cccs: 'F',
+  diode: 'D',
+  transistor: 'Q',
+  bulb: BULB_PREFIX,
+  spst: 'S',
+  spdt: 'S',
+  subcircuit: 'X',
+};
+
+// Current-controlled sources sense through a 0 V source named after them, e.g. VF1 for F1; the
+// importer folds such a source back into its controlled source
+export const senseSourceName = (designator: string) => `V${designator}`;
+
+// .MODEL cards shared by the whole deck, deduplicated by their parameter text
+class ModelLibrary {
+  private cards = new Map<string, string>(); // card text -> model name
+
+  nameFor(kind: 'D' | 'NPN' | 'PNP', parameters: string): string {
+    const key = `${kind}(${parameters})`;
+    if (!this.cards.has(key)) {
+      const prefix = kind === 'D' ? 'DMOD' : 'QMOD';
+      const taken = Array.from(this.cards.values()).filter(name => name.startsWith(prefix)).length;
+      this.cards.set(key, `${prefix}${taken + 1}`);
+    }
+    return this.cards.get(key)!;
+  }
+
+  lines(): string[] {
+    return Array.from(this.cards, ([card, name]) => `.MODEL ${name} ${card}`);
+  }
+}
+
+export function exportSpice(
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[],
+  analyses: SpiceAnalyses = {},
+  title = 'Circuit'
+): string {
+  const models = new ModelLibrary();
+  const subcircuitNames = nameSubcircuits(subcircuits);
+  const lines: string[] = [`* ${title}`];
+
+  // Power rails connect across the hierarchy, which SPICE expresses with global nodes
+  const rails = [components, ...subcircuits.map(def => def.internalComponents)]
+    .flatMap(list => list.filter(c => c.type === 'rail' && c.netName).map(c => sanitize(c.netName!)));
+  const globals = Array.from(new Set(rails)).filter(name => name !== SPICE_GROUND);
+  if (globals.length > 0) lines.push('', `.GLOBAL ${globals.join(' ')}`);
+
+  subcircuits.forEach(def => {
+    // Port nodes are named after the ports; remaining internal nodes are numbered
+    const ports = [...def.inputs, ...def.outputs];
+    const nodeNames = nameNodes(def.internalComponents, def.internalWires, subcircuits, ports);
+    const portNodes = ports.map(p => nodeNames(p.binding));
+    lines.push('', `.SUBCKT ${subcircuitNames.get(def.id)} ${portNodes.join(' ')}`);
+    lines.push(...elementLines(def.internalComponents, nodeNames, subcircuits, subcircuitNames, models));
+    lines.push(`.ENDS ${subcircuitNames.get(def.id)}`);
+  });
+
+  const nodeNames = nameNodes(components, wires, subcircuits, null);
+  lines.push('', ...elementLines(components, nodeNames, subcircuits, subcircuitNames, models));
+
+  const modelLines = models.lines();
+  if (modelLines.length > 0) lines.push('', ...modelLines);
+
+  lines.push('', ...analysisLines(analyses), '.END', '');
+  return lines.join('\n');
+}
+
+// SPICE identifiers cannot contain whitespace; clashes after sanitising get a numeric suffix
+function nameSubcircuits(subcircuits: SubCircuit[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  subcircuits.forEach(def => {
+    const base = sanitize(def.name) || 'SUBCKT';
+    let name = base;
+    for (let n = 2; used.has(name.toUpperCase()); n++) name = `${base}_${n}`;
+    used.add(name.toUpperCase());
+    names.set(def.id, name);
+  });
+  return names;
+}
+
+const sanitize = (name: string) => name.trim().replace(/[^A-Za-z0-9_]+/g, '_');
+
+// Names every electrical node of one level. At top level (no ports) the simulator's ground node
+// is SPICE node 0; inside a .SUBCKT each port lends its name to the node it is bound to, and
+// only an explicit ground component makes a node 0. Rails and labels name their nodes.
+function nameNodes(
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[],
+  ports: Terminal[] | null
+): (ref: TerminalRef) => string {
+  if (components.length === 0) return () => SPICE_GROUND;
+  const { nodeOf, groundNode } = connectTerminals(components, wires);
+  const names = new Map<Node, string>();
+  const used = new Set<string>();
+  const nameAfter = (type: 'rail' | 'label') => components.filter(c => c.type === type && c.netName).forEach(comp => {
+    const node = nodeOf(comp.id, 0);
+    const name = sanitize(comp.netName!);
+    if (names.has(node) || used.has(name)) return;
+    names.set(node, name);
+    used.add(name);
+  });
+
+  const explicitGround = components.some(c => c.type === 'ground' || (isNetSymbol(c) && c.netName === SPICE_GROUND));
+  if (!ports || explicitGround) {
+    names.set(groundNode, SPICE_GROUND);
+    used.add(SPICE_GROUND);
+  }
+
+  nameAfter('rail'); // Rails keep their global name even on a port's node
+
+  ports?.forEach((port, i) => {
+    const node = nodeOf(port.binding.componentId, port.binding.terminal);
+    if (names.has(node)) return; // Several ports on one node share its name
+    let name = sanitize(port.name) || `port${i + 1}`;
+    while (used.has(name)) name = `${name}_`;
+    names.set(node, name);
+    used.add(name);
+  });
+
+  nameAfter('label');
+
+  let next = 1;
+  components.forEach(comp => {
+    terminalsOf(comp, subcircuits).forEach((_, terminal) => {
+      const node = nodeOf(comp.id, terminal);
+      if (names.has(node)) return;
+      while (used.has(`N${next}`)) next++;
+      names.set(node, `N${next}`);
+      used.add(`N${next}`);
+    });
+  });
+
+  return ref => names.get(nodeOf(ref.componentId, ref.terminal)) ?? SPICE_GROUND;
+}
+
+// Reference designators of one level (R1, R2, C1, X1, ...), numbered per prefix in component
+// order. Net symbols have none.
+export function designatorsOf(components: CircuitComponent[]): Map<string, string> {
+  const counters = new Map<string, number>();
+  const designators = new Map<string, string>();
+  components.filter(comp => !isNetSymbol(comp)).forEach(comp => {
+    const prefix = DESIGNATOR_PREFIX[comp.type as keyof typeof DESIGNATOR_PREFIX];
+    const count = (counters.get(prefix) ?? 0) + 1;
+    counters.set(prefix, count);
+    designators.set(comp.id, `${prefix}${count}`);
+  });
+  return designators;
+}
+
+function elementLines(
+  components: CircuitComponent[],
+  nodeNames: (ref: TerminalRef) => string,
+  subcircuits: SubCircuit[],
+  subcircuitNames: Map<string, string>,
+  models: ModelLibrary
+): string[] {
+  const designators = designatorsOf(components);
+  return components.filter(comp => !isNetSymbol(comp)).flatMap(comp => {
+    const designator = designators.get(comp.id)!;
+    const nodes = terminalsOf(comp, subcircuits)
+      .map((_, terminal) => nodeNames({ componentId: comp.id, terminal }))
+      .join(' ');
+    const value = formatSpiceNumber(comp.value);
+
+    switch (comp.type) {
+      case 'resistor':
+      case 'capacitor':
+      case 'inductor':
+        return `${designator} ${nodes} ${value}`;
+      case 'voltage':
+      case 'current': {
+        const ac = comp.acMagnitude ? ` AC ${formatSpiceNumber(comp.acMagnitude)} ${formatSpiceNumber(comp.acPhase ?? 0)}` : '';
+        const waveform = comp.waveform ? ` ${waveformText(comp.waveform)}` : '';
+        return `${designator} ${nodes} DC ${value}${ac}${waveform}`;
+      }
+      case 'vcvs':
+      case 'vccs':
+        // Output nodes, then control nodes, then the gain
+        return `${designator} ${nodes} ${value}`;
+      case 'ccvs':
+      case 'cccs': {
+        const [outP, outN, ctrlP, ctrlN] = [0, 1, 2, 3].map(terminal => nodeNames({ componentId: comp.id, terminal }));
+        const sense = senseSourceName(designator);
+        return [`${sense} ${ctrlP} ${ctrlN} DC 0`, `${designator} ${outP} ${outN} ${sense} ${value}`];
+      }
+      case 'diode': {
+        const model = diodeModelOf(comp);
+        const parameters = [
+          `IS=${formatSpiceNumber(model.saturationCurrent)}`,
+          `N=${formatSpiceNumber(model.emissionCoefficient)}`,
+          `RS=${formatSpiceNumber(model.seriesResistance)}`,
+        ].join(' ');
+        return `${designator} ${nodes} ${models.nameFor('D', parameters)}`;
+      }
+      case 'transistor': {
+        const model = bjtModelOf(comp);
+        const parameters = [
+          `IS=${formatSpiceNumber(model.saturationCurrent)}`,
+          `BF=${formatSpiceNumber(model.forwardBeta)}`,
+          `BR=${formatSpiceNumber(model.reverseBeta)}`,
+        ].join(' ');
+        return `${designator} ${nodes} ${models.nameFor(model.polarity === 'pnp' ? 'PNP' : 'NPN', parameters)}`;
+      }
+      case 'subcircuit': {
+        const name = comp.subcircuitId && subcircuitNames.get(comp.subcircuitId);
+        return name ? `${designator} ${nodes} ${name}` : `* ${designator}: missing subcircuit ${comp.subcircuitId}`;
+      }
+      case 'bulb':
+        // A bulb is the resistance it has at its rating
+        return `${designator} ${nodes} ${formatSpiceNumber(resistanceOf(comp))}`;
+      case 'spst':
+      case 'spdt': {
+        // SPICE switches need a control circuit, so a switch is written as the resistors of its DC state
+        const { toggleTimes } = switchModelOf(comp);
+        const note = toggleTimes.length > 0
+          ? [`* ${designator} toggles at ${toggleTimes.map(formatSpiceNumber).join(' ')} s; only its DC state is exported`]
+          : [];
+        if (comp.type === 'spst') return [...note, `R${designator} ${nodes} ${formatSpiceNumber(resistanceOf(comp))}`];
+        const [common, closedContact, openContact] = [0, 1, 2].map(terminal => nodeNames({ componentId: comp.id, terminal }));
+        return [
+          ...note,
+          `R${designator}NC ${common} ${closedContact} ${formatSpiceNumber(switchResistanceOf(comp, 'nc'))}`,
+          `R${designator}NO ${common} ${openContact} ${formatSpiceNumber(switchResistanceOf(comp, 'no'))}`,
+        ];
+      }
+    }
+    return `* ${designator}: unsupported component`;
+  });
+}
+
+// SIN(VO VA FREQ TD THETA PHASE), PULSE(V1 V2 TD TR TF PW PER) or PWL(T1 V1 T2 V2 ...)
+function waveformText(waveform: SourceWaveform): string {
+  const numbers = (values: number[]) => values.map(formatSpiceNumber).join(' ');
+  switch (waveform.kind) {
+    case 'sin': {
+      const { offset, amplitude, frequency, delay, phase } = waveform;
+      return `SIN(${numbers([offset, amplitude, frequency, delay, 0, phase])})`;
+    }
+    case 'pulse': {
+      const { initial, pulsed, delay, rise, fall, width, period } = waveform;
+      return `PULSE(${numbers([initial, pulsed, delay, rise, fall, width, period])})`;
+    }
+    case 'pwl':
+      return `PWL(${numbers(waveform.points.flatMap(point => [point.time, point.value]))})`;
+  }
+}
+
+function analysisLines(analyses: SpiceAnalyses): string[] {
+  const lines: string[] = [];
+  if (analyses.operatingPoint || (!analyses.transient && !analyses.ac)) lines.push('.OP');
+  if (analyses.transient) {
+    const { timeStep, stopTime, initialConditions } = analyses.transient;
+    // Our 'zero' initial conditions skip the operating point, which is what UIC does
+    lines.push(`.TRAN ${formatSpiceNumber(timeStep)} ${formatSpiceNumber(stopTime)}${initialConditions === 'operatingPoint' ? '' : ' UIC'}`);
+  }
+  if (analyses.ac) {
+    const { startFrequency, stopFrequency, points, scale } = analyses.ac;
+    if (scale === 'linear') {
+      lines.push(`.AC LIN ${points} ${formatSpiceNumber(startFrequency)} ${formatSpiceNumber(stopFrequency)}`);
+    } else {
+      // SPICE counts points per decade rather than in total
+      const decades = Math.max(Math.log10(stopFrequency / startFrequency), 1e-9);
+      const perDecade = Math.max(1, Math.ceil((points - 1) / decades));
+      lines.push(`.AC DEC ${perDecade} ${formatSpiceNumber(startFrequency)} ${formatSpiceNumber(stopFrequency)}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,455 @@
+// src/spice/importer.ts
+// Reads a SPICE deck back into components, wires and SubCircuit definitions. Every card that
+// cannot be represented is listed in the import report instead of being dropped silently.
+import { CircuitComponent, Wire, SubCircuit, DiodeModel, BjtModel, ComponentType, SourceWaveform } from '../types/types';
+import { layoutPorts, PortProposal } from '../subcircuits';
+import { componentSize } from '../terminals';
+import { GRID_SIZE } from '../constants';
+import { parseSpiceNumber } from './units';
+import { BULB_PREFIX } from './exporter';
+import { DEFAULT_BULB_MODEL } from '../simulation/devices';
+import { waveformValue } from '../simulation/waveforms';
+
+export interface ImportIssue {
+  line: number; // 1-based line in the deck
+  card: string;
+  reason: string;
+}
+
+export interface SpiceImport {
+  components: CircuitComponent[];
+  wires: Wire[];
+  subcircuits: SubCircuit[];
+  report: ImportIssue[];
+}
+
+interface Card {
+  line: number;
+  text: string;
+  tokens: string[];
+}
+
+interface ElementCard extends Card {
+  name: string; // upper-cased designator
+  nodes: string[];
+  senses?: string; // upper-cased name of the source a current-controlled source senses
+}
+
+interface SubcktCard {
+  line: number;
+  name: string;
+  ports: string[];
+  elements: Card[];
+}
+
+type ModelCard =
+  | { kind: 'D'; parameters: Partial<DiodeModel> }
+  | { kind: 'Q'; parameters: Partial<BjtModel> };
+
+// Element letter -> component type and number of nodes
+const ELEMENTS: { [letter: string]: { type: ComponentType; nodes: number } } = {
+  R: { type: 'resistor', nodes: 2 },
+  C: { type: 'capacitor', nodes: 2 },
+  L: { type: 'inductor', nodes: 2 },
+  V: { type: 'voltage', nodes: 2 },
+  I: { type: 'current', nodes: 2 },
+  E: { type: 'vcvs', nodes: 4 },
+  G: { type: 'vccs', nodes: 4 },
+  H: { type: 'ccvs', nodes: 2 }, // the control is a source name, not nodes
+  F: { type: 'cccs', nodes: 2 },
+  D: { type: 'diode', nodes: 2 },
+  Q: { type: 'transistor', nodes: 3 },
+};
+
+const WAVEFORMS = ['SIN', 'PULSE', 'PWL', 'EXP', 'SFFM', 'AM'];
+const SUPPORTED_WAVEFORMS = ['SIN', 'PULSE', 'PWL'];
+
+const GROUND_NAMES = ['0', 'GND'];
+
+// SPICE node names are case-insensitive; every ground name is the one node 0
+const nodeKey = (node: string) => (GROUND_NAMES.includes(node.toUpperCase()) ? '0' : node.toUpperCase());
+const GROUND_ID = 'ground'; // Element names are upper-cased, so this cannot clash with one
+
+// Horizontal and vertical gap between auto-placed components
+const LAYOUT_GAP = 3 * GRID_SIZE;
+const LAYOUT_ORIGIN = 2 * GRID_SIZE;
+
+export function importSpice(deck: string): SpiceImport {
+  const report: ImportIssue[] = [];
+  const issue = (card: Card, reason: string) => report.push({ line: card.line, card: card.text, reason });
+
+  const cards = readCards(deck);
+  const topLevel: Card[] = [];
+  const subckts = new Map<string, SubcktCard>();
+  const models = new Map<string, ModelCard>();
+  let open: SubcktCard | null = null;
+
+  for (const card of cards) {
+    const keyword = card.tokens[0].toUpperCase();
+    if (keyword === '.SUBCKT') {
+      if (open) issue(card, `Nested .SUBCKT definitions are not supported; "${open.name}" is still open.`);
+      else if (card.tokens.length < 2) issue(card, '.SUBCKT needs a name.');
+      else open = { line: card.line, name: card.tokens[1], ports: card.tokens.slice(2).filter(t => !t.includes('=')), elements: [] };
+    } else if (keyword === '.ENDS') {
+      if (!open) issue(card, '.ENDS without a matching .SUBCKT.');
+      else subckts.set(open.name.toUpperCase(), open);
+      open = null;
+    } else if (keyword === '.MODEL') {
+      const model = readModel(card);
+      if (typeof model === 'string') issue(card, model);
+      else models.set(card.tokens[1].toUpperCase(), model);
+    } else if (keyword === '.END') {
+      break;
+    } else if (keyword.startsWith('.')) {
+      issue(card, `The ${keyword} card is not supported and was ignored.`);
+    } else {
+      (open ? open.elements : topLevel).push(card);
+    }
+  }
+  if (open) {
+    report.push({ line: open.line, card: `.SUBCKT ${open.name}`, reason: 'Missing .ENDS; the definition was closed at the end of the deck.' });
+    subckts.set(open.name.toUpperCase(), open);
+  }
+
+  const subcircuitIds = new Map(Array.from(subckts.keys(), name => [name, `subckt_${name}`]));
+  const subcircuits: SubCircuit[] = [];
+
+  subckts.forEach(def => {
+    const level = buildLevel(def.elements, subckts, subcircuitIds, models, issue, subcircuits);
+    const ports: PortProposal[] = [];
+    def.ports.forEach((node, i) => {
+      const binding = level.terminalsOn(node)[0];
+      if (!binding) {
+        report.push({ line: def.line, card: `.SUBCKT ${def.name}`, reason: `Port ${node} is not connected to any element and was left unbound.` });
+        return;
+      }
+      // First half of the pins on the left edge as inputs, the rest on the right as outputs
+      ports.push({ binding, name: node, side: i < Math.ceil(def.ports.length / 2) ? 'left' : 'right' });
+    });
+    const { inputs, outputs, width, height } = layoutPorts(ports);
+    subcircuits.push({
+      id: subcircuitIds.get(def.name.toUpperCase())!,
+      name: def.name,
+      internalComponents: level.components,
+      internalWires: level.wires,
+      inputs,
+      outputs,
+      width,
+      height,
+    });
+  });
+
+  const top = buildLevel(topLevel, subckts, subcircuitIds, models, issue, subcircuits);
+  return { components: top.components, wires: top.wires, subcircuits, report: report.sort((a, b) => a.line - b.line) };
+}
+
+// Splits the deck into logical cards: skips the title line and comments, strips inline
+// comments, joins `+` continuation lines and tokenises on whitespace, parentheses and commas
+function readCards(deck: string): Card[] {
+  const cards: Card[] = [];
+  deck.split(/\r?\n/).forEach((raw, index) => {
+    if (index === 0) return; // The first line of a deck is always its title
+    const text = raw.replace(/[;$].*$/, '').trim();
+    if (text === '' || text.startsWith('*')) return;
+    if (text.startsWith('+') && cards.length > 0) {
+      const previous = cards[cards.length - 1];
+      previous.text += ` ${text.slice(1).trim()}`;
+      previous.tokens = tokenize(previous.text);
+      return;
+    }
+    cards.push({ line: index + 1, text, tokens: tokenize(text) });
+  });
+  return cards;
+}
+
+const tokenize = (text: string) =>
+  text.replace(/\s*=\s*/g, '=').replace(/[(),]/g, ' ').split(/\s+/).filter(t => t !== '');
+
+// `.MODEL name D(IS=... N=... RS=...)` and `.MODEL name NPN|PNP(IS=... BF=... BR=...)`
+function readModel(card: Card): ModelCard | string {
+  const [, , type] = card.tokens;
+  if (!type) return '.MODEL needs a name and a type.';
+  const parameters = new Map<string, number>();
+  card.tokens.slice(3).forEach(token => {
+    const [key, value] = token.split('=');
+    const number = value === undefined ? null : parseSpiceNumber(value);
+    if (number !== null) parameters.set(key.toUpperCase(), number);
+  });
+  const pick = <T>(fields: [string, keyof T][]) => {
+    const picked: Partial<T> = {};
+    fields.forEach(([key, field]) => {
+      if (parameters.has(key)) (picked as { [k: string]: unknown })[field as string] = parameters.get(key);
+    });
+    return picked;
+  };
+
+  switch (type.toUpperCase()) {
+    case 'D':
+      return { kind: 'D', parameters: pick<DiodeModel>([['IS', 'saturationCurrent'], ['N', 'emissionCoefficient'], ['RS', 'seriesResistance']]) };
+    case 'NPN':
+    case 'PNP':
+      return {
+        kind: 'Q',
+        parameters: {
+          polarity: type.toLowerCase() as BjtModel['polarity'],
+          ...pick<BjtModel>([['IS', 'saturationCurrent'], ['BF', 'forwardBeta'], ['BR', 'reverseBeta']]),
+        },
+      };
+    default:
+      return `Models of type ${type} are not supported.`;
+  }
+}
+
+// SIN(VO VA FREQ [TD [THETA [PHASE]]]), PULSE(V1 V2 TD TR TF PW [PER]) or PWL(T1 V1 T2 V2 ...),
+// or the reason the arguments describe no waveform we can simulate
+function readWaveform(keyword: string, args: number[]): SourceWaveform | string {
+  switch (keyword) {
+    case 'SIN': {
+      if (args.length < 3) return 'SIN needs an offset, an amplitude and a frequency;';
+      const [offset, amplitude, frequency, delay = 0, damping = 0, phase = 0] = args;
+      if (damping !== 0) return 'Damped SIN waveforms are not supported;';
+      return { kind: 'sin', offset, amplitude, frequency, delay, phase };
+    }
+    case 'PULSE': {
+      if (args.length < 6) return 'PULSE needs both levels, a delay, rise and fall times and a width;';
+      const [initial, pulsed, delay, rise, fall, width, period = 0] = args;
+      return { kind: 'pulse', initial, pulsed, delay, rise, fall, width, period };
+    }
+    default: {
+      if (args.length < 2 || args.length % 2 !== 0) return 'PWL needs time and value pairs;';
+      const points = Array.from({ length: args.length / 2 }, (_, i) => ({ time: args[2 * i], value: args[2 * i + 1] }));
+      if (points.some((point, i) => i > 0 && point.time < points[i - 1].time)) return 'PWL times must not decrease;';
+      return { kind: 'pwl', points };
+    }
+  }
+}
+
+interface Level {
+  components: CircuitComponent[];
+  wires: Wire[];
+  terminalsOn: (node: string) => { componentId: string; terminal: number }[];
+}
+
+// Turns the element cards of one level into components, connects every node with a chain of
+// wires and lays the components out on a grid
+function buildLevel(
+  cards: Card[],
+  subckts: Map<string, SubcktCard>,
+  subcircuitIds: Map<string, string>,
+  models: Map<string, ModelCard>,
+  issue: (card: Card, reason: string) => void,
+  subcircuits: SubCircuit[]
+): Level {
+  const components: CircuitComponent[] = [];
+  const nodes = new Map<string, { componentId: string; terminal: number }[]>();
+  const elements: ElementCard[] = [];
+
+  cards.forEach(card => {
+    const name = card.tokens[0].toUpperCase();
+    if (components.some(c => c.id === name)) {
+      issue(card, `Duplicate element name ${name}; the element was skipped.`);
+      return;
+    }
+    const component = readElement(card, name, subckts, subcircuitIds, models, issue);
+    if (!component) return;
+    components.push(component.component);
+    elements.push({ ...card, name, nodes: component.nodes, senses: component.senses });
+  });
+  absorbSenseSources(components, elements, issue);
+
+  // Node 0 is the global reference, so every level that uses it gets a ground symbol on it
+  if (elements.some(e => e.nodes.some(n => GROUND_NAMES.includes(n.toUpperCase())))) {
+    components.push({ id: GROUND_ID, type: 'ground', x: 0, y: 0, value: 0 });
+    elements.push({ line: 0, text: '', tokens: [], name: GROUND_ID, nodes: ['0'] });
+  }
+
+  elements.forEach(element => {
+    element.nodes.forEach((node, terminal) => {
+      const key = nodeKey(node);
+      if (!nodes.has(key)) nodes.set(key, []);
+      nodes.get(key)!.push({ componentId: element.name, terminal });
+    });
+  });
+
+  const wires: Wire[] = [];
+  nodes.forEach((terminals, node) => {
+    for (let i = 1; i < terminals.length; i++) {
+      wires.push({ id: `${node}_${i}`, from: terminals[i - 1], to: terminals[i] });
+    }
+  });
+
+  placeOnGrid(components, elements, subcircuits);
+  return { components, wires, terminalsOn: node => nodes.get(nodeKey(node)) ?? [] };
+}
+
+function readElement(
+  card: Card,
+  name: string,
+  subckts: Map<string, SubcktCard>,
+  subcircuitIds: Map<string, string>,
+  models: Map<string, ModelCard>,
+  issue: (card: Card, reason: string) => void
+): { component: CircuitComponent; nodes: string[]; senses?: string } | null {
+  const letter = name[0];
+  const base = { id: name, x: 0, y: 0, value: 0 };
+
+  if (letter === 'X') {
+    const subcktName = card.tokens[card.tokens.length - 1];
+    const def = subckts.get(subcktName.toUpperCase());
+    const nodes = card.tokens.slice(1, -1).filter(t => !t.includes('='));
+    if (!def) {
+      issue(card, `Subcircuit ${subcktName} is not defined in the deck; the instance was skipped.`);
+      return null;
+    }
+    if (nodes.length !== def.ports.length) {
+      issue(card, `${name} connects ${nodes.length} nodes but ${def.name} has ${def.ports.length} ports; the instance was skipped.`);
+      return null;
+    }
+    return { component: { ...base, type: 'subcircuit', subcircuitId: subcircuitIds.get(subcktName.toUpperCase()) }, nodes };
+  }
+
+  const element = ELEMENTS[letter];
+  if (!element) {
+    issue(card, `Elements of type ${letter} are not supported; ${name} was skipped.`);
+    return null;
+  }
+  const nodes = card.tokens.slice(1, 1 + element.nodes);
+  const rest = card.tokens.slice(1 + element.nodes);
+  if (nodes.length < element.nodes) {
+    issue(card, `${name} needs ${element.nodes} nodes; the element was skipped.`);
+    return null;
+  }
+  const component: CircuitComponent = { ...base, type: element.type };
+
+  if (element.type === 'ccvs' || element.type === 'cccs') {
+    const gain = rest[1] === undefined ? null : parseSpiceNumber(rest[1]);
+    if (gain === null) {
+      issue(card, `${name} needs a controlling source and a gain; the element was skipped.`);
+      return null;
+    }
+    if (rest.length > 2) issue(card, `Extra parameters of ${name} (${rest.slice(2).join(' ')}) were ignored.`);
+    return { component: { ...component, value: gain }, nodes, senses: rest[0].toUpperCase() };
+  } else if (element.type === 'voltage' || element.type === 'current') {
+    let hasDcValue = false;
+    for (let i = 0; i < rest.length; i++) {
+      const keyword = rest[i].toUpperCase();
+      if (keyword === 'DC') {
+        component.value = parseSpiceNumber(rest[++i] ?? '') ?? 0;
+        hasDcValue = true;
+      } else if (keyword === 'AC') {
+        component.acMagnitude = parseSpiceNumber(rest[i + 1] ?? '') ?? 1;
+        const phase = parseSpiceNumber(rest[i + 2] ?? '');
+        if (phase !== null) component.acPhase = phase;
+        i += phase !== null ? 2 : 1;
+      } else if (SUPPORTED_WAVEFORMS.includes(keyword)) {
+        const args: number[] = [];
+        while (i + 1 < rest.length && parseSpiceNumber(rest[i + 1]) !== null) args.push(parseSpiceNumber(rest[++i])!);
+        const waveform = readWaveform(keyword, args);
+        if (typeof waveform === 'string') issue(card, `${waveform} ${name} keeps only its DC value.`);
+        else component.waveform = waveform;
+      } else if (WAVEFORMS.includes(keyword)) {
+        issue(card, `${keyword} waveforms are not supported; ${name} keeps only its DC value.`);
+        break;
+      } else if (parseSpiceNumber(rest[i]) !== null && i === 0) {
+        component.value = parseSpiceNumber(rest[i])!;
+        hasDcValue = true;
+      }
+    }
+    // Like SPICE, a source given only a waveform sits at its t=0 value in DC analyses
+    if (!hasDcValue && component.waveform) component.value = waveformValue(component.waveform, 0);
+  } else if (element.type === 'diode' || element.type === 'transistor') {
+    const modelName = rest[0];
+    const model = modelName ? models.get(modelName.toUpperCase()) : undefined;
+    const expected = element.type === 'diode' ? 'D' : 'Q';
+    if (!model || model.kind !== expected) {
+      issue(card, `Model ${modelName ?? '(none)'} was not found; ${name} uses the default ${element.type} model.`);
+    } else if (model.kind === 'D') {
+      component.diodeModel = model.parameters;
+    } else {
+      component.bjtModel = model.parameters;
+    }
+  } else {
+    const value = rest[0] === undefined ? null : parseSpiceNumber(rest[0]);
+    if (value === null) {
+      issue(card, `${name} has no valid value; the element was skipped.`);
+      return null;
+    }
+    component.value = value;
+    if (rest.length > 1) issue(card, `Extra parameters of ${name} (${rest.slice(1).join(' ')}) were ignored.`);
+    if (name.startsWith(BULB_PREFIX)) {
+      // Exported bulbs come back at the default rated voltage, with the power that gives their resistance
+      const { ratedVoltage } = DEFAULT_BULB_MODEL;
+      return { component: { ...base, type: 'bulb', bulbModel: { ratedPower: (ratedVoltage * ratedVoltage) / value } }, nodes };
+    }
+  }
+  return { component, nodes };
+}
+
+// A current-controlled source senses the current of its own 0 V branch between its control pins,
+// so it takes over the 0 V source it names and that source's nodes become its control nodes.
+// Sources that are also driven, or sensed twice, cannot be folded in and the element is skipped.
+function absorbSenseSources(components: CircuitComponent[], elements: ElementCard[], issue: (card: Card, reason: string) => void) {
+  const absorbed = new Set<string>();
+  const skipped = new Set<string>();
+  elements.forEach(element => {
+    if (!element.senses) return;
+    const source = components.find(c => c.id === element.senses);
+    const sourceCard = elements.find(e => e.name === element.senses);
+    if (!source || !sourceCard || source.type !== 'voltage' || source.value !== 0 || source.acMagnitude || absorbed.has(source.id)) {
+      issue(element, `${element.name} must sense a 0 V source of its own, which ${element.senses} is not; the element was skipped.`);
+      skipped.add(element.name);
+      return;
+    }
+    absorbed.add(source.id);
+    element.nodes = [...element.nodes, ...sourceCard.nodes];
+  });
+  const removed = (id: string) => absorbed.has(id) || skipped.has(id);
+  const kept = components.filter(c => !removed(c.id));
+  const keptElements = elements.filter(e => !removed(e.name));
+  components.splice(0, components.length, ...kept);
+  elements.splice(0, elements.length, ...keptElements);
+}
+
+// Row-major grid in connection order: a breadth-first walk over shared nodes (ground excluded,
+// since everything touches it) keeps connected elements next to each other
+function placeOnGrid(components: CircuitComponent[], elements: ElementCard[], subcircuits: SubCircuit[]) {
+  const order: number[] = [];
+  const visited = new Set<number>();
+  const neighbours = (index: number) => {
+    const shared = new Set(elements[index].nodes.map(nodeKey).filter(key => key !== '0'));
+    return elements
+      .map((other, j) => ({ other, j }))
+      .filter(({ other, j }) => j !== index && other.nodes.some(n => shared.has(nodeKey(n))))
+      .map(({ j }) => j);
+  };
+
+  elements.forEach((_, start) => {
+    if (visited.has(start)) return;
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const index = queue.shift()!;
+      order.push(index);
+      neighbours(index).forEach(j => {
+        if (!visited.has(j)) {
+          visited.add(j);
+          queue.push(j);
+        }
+      });
+    }
+  });
+
+  const columns = Math.max(1, Math.ceil(Math.sqrt(order.length)));
+  const sizes = components.map(c => componentSize(c, subcircuits));
+  const cellWidth = Math.max(...sizes.map(s => s.width), 0) + LAYOUT_GAP;
+  let rowTop = LAYOUT_ORIGIN;
+  for (let row = 0; row * columns < order.length; row++) {
+    const rowIndices = order.slice(row * columns, (row + 1) * columns);
+    const y = rowTop;
+    rowIndices.forEach((index, column) => {
+      components[index].x = LAYOUT_ORIGIN + column * cellWidth;
+      components[index].y = y;
+    });
+    rowTop += Math.max(...rowIndices.map(i => sizes[i].height)) + LAYOUT_GAP;
+  }
+}
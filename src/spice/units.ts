@@ -0,0 +1,44 @@
+// src/spice/units.ts
+// SPICE engineering notation: 4.7k, 100n, 2.2meg. Suffixes are case-insensitive and
+// any trailing unit letters are ignored, so `10uF` and `1kOhm` read as 10u and 1k.
+
+const SUFFIXES: [string, number][] = [
+  ['t', 1e12],
+  ['g', 1e9],
+  ['meg', 1e6],
+  ['k', 1e3],
+  ['', 1],
+  ['m', 1e-3],
+  ['u', 1e-6],
+  ['n', 1e-9],
+  ['p', 1e-12],
+  ['f', 1e-15],
+];
+
+// Shortest representation with at most 6 significant digits, using the largest suffix that
+// keeps the mantissa at or above 1. Identical values always format identically.
+export function formatSpiceNumber(value: number): string {
+  if (value === 0 || !Number.isFinite(value)) return String(value);
+  const magnitude = Math.abs(value);
+  for (const [suffix, scale] of SUFFIXES) {
+    if (magnitude >= scale) return `${trim(value / scale)}${suffix}`;
+  }
+  return trim(value);
+}
+
+const trim = (value: number) => String(Number(value.toPrecision(6)));
+
+const NUMBER_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(meg|mil|[tgkmunpf])?[a-z]*$/i;
+
+// Parses a SPICE number, or returns null when the text is not one
+export function parseSpiceNumber(text: string): number | null {
+  const match = NUMBER_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const mantissa = parseFloat(match[1]);
+  const suffix = match[2]?.toLowerCase();
+  if (!suffix) return mantissa;
+  if (suffix === 'mil') return mantissa * 25.4e-6;
+  const scale = SUFFIXES.find(([s]) => s === suffix)![1];
+  // Shifting the decimal exponent avoids rounding noise such as 10u -> 9.999999999999999e-6
+  return /e/i.test(match[1]) ? mantissa * scale : Number(`${match[1]}e${Math.round(Math.log10(scale))}`);
+}
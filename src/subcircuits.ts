@@ -0,0 +1,182 @@
+// src/subcircuits.ts
+// Turning a selection of canvas components into a subcircuit definition plus an instance
+// that takes its place, wired to the rest of the circuit through the new ports.
+import { CircuitComponent, Wire, WireEnd, SubCircuit, Terminal, TerminalRef } from './types/types';
+import { GRID_SIZE } from './constants';
+import { terminalsOf, boundsOf } from './terminals';
+import { anchorTerminal, endPosition, isWireJoint, translateWire, wiresWithin } from './wires';
+
+// Edge of the subcircuit symbol a port sits on. Ports on the left and top edges are inputs,
+// ports on the right and bottom edges are outputs.
+export type PortSide = 'left' | 'right' | 'top' | 'bottom';
+
+export interface PortProposal {
+  binding: TerminalRef; // Selected component terminal the port exposes
+  name: string;
+  side: PortSide;
+}
+
+export interface SubcircuitCreation {
+  subcircuit: SubCircuit;
+  instance: CircuitComponent;
+  components: CircuitComponent[]; // Canvas components after the selection was replaced
+  wires: Wire[]; // Canvas wires after boundary wires were moved to the instance ports
+}
+
+const MIN_WIDTH = 100;
+const MIN_HEIGHT = 60;
+
+const INPUT_SIDES: PortSide[] = ['left', 'top'];
+
+const sameTerminal = (a: TerminalRef, b: TerminalRef) => a.componentId === b.componentId && a.terminal === b.terminal;
+
+// Maps a wire end inside the selection to the selected pin it connects to: the pin itself, or
+// for an end landing on a wire that moves into the subcircuit, a pin on that wire's net.
+// Ends outside the selection map to null.
+function insideEndResolver(selectedIds: string[], wires: Wire[]) {
+  const internal = wiresWithin(selectedIds, wires);
+  return (end: WireEnd): TerminalRef | null => {
+    if (!isWireJoint(end)) return selectedIds.includes(end.componentId) ? end : null;
+    return internal.some(w => w.id === end.wireId) ? anchorTerminal(end.wireId, internal) : null;
+  };
+}
+
+// Every selected terminal that a wire connects to an unselected component becomes a proposed
+// port, named after the terminal and placed on the side facing the outside component.
+// Several wires leaving the same terminal share one port.
+export function proposePorts(
+  selectedIds: string[],
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[]
+): PortProposal[] {
+  const selected = components.filter(c => selectedIds.includes(c.id));
+  if (selected.length === 0) return [];
+  const bounds = boundsOf(selected, subcircuits);
+  const centerX = (bounds.left + bounds.right) / 2;
+  const centerY = (bounds.top + bounds.bottom) / 2;
+
+  const insideEnd = insideEndResolver(selectedIds, wires);
+  const proposals: PortProposal[] = [];
+  wires.forEach(wire => {
+    const fromInside = insideEnd(wire.from);
+    const toInside = insideEnd(wire.to);
+    if (!fromInside === !toInside) return; // Internal wire or unrelated to the selection
+
+    const inside = (fromInside ?? toInside)!;
+    const outside = fromInside ? wire.to : wire.from;
+    if (proposals.some(p => sameTerminal(p.binding, inside))) return;
+
+    const insideComponent = selected.find(c => c.id === inside.componentId)!;
+    const outsidePosition = endPosition(outside, components, subcircuits);
+    const terminalName = terminalsOf(insideComponent, subcircuits)[inside.terminal]?.name ?? `${inside.terminal + 1}`;
+
+    let side: PortSide = 'left';
+    if (outsidePosition) {
+      const dx = outsidePosition.x - centerX;
+      const dy = outsidePosition.y - centerY;
+      side = Math.abs(dx) >= Math.abs(dy) ? (dx < 0 ? 'left' : 'right') : (dy < 0 ? 'top' : 'bottom');
+    }
+    const baseName = `${insideComponent.type} ${terminalName}`;
+    const taken = proposals.filter(p => p.name === baseName || p.name.startsWith(`${baseName} #`)).length;
+    proposals.push({ binding: inside, name: taken === 0 ? baseName : `${baseName} #${taken + 1}`, side });
+  });
+  return proposals;
+}
+
+// Places the ports on the symbol outline in list order and sizes the symbol to fit them on the grid.
+// Inputs come first in the terminal numbering, then outputs, both in list order.
+export function layoutPorts(ports: PortProposal[]): { inputs: Terminal[]; outputs: Terminal[]; width: number; height: number } {
+  const countOn = (side: PortSide) => ports.filter(p => p.side === side).length;
+  const width = Math.max(MIN_WIDTH, (Math.max(countOn('top'), countOn('bottom')) + 1) * GRID_SIZE);
+  const height = Math.max(MIN_HEIGHT, (Math.max(countOn('left'), countOn('right')) + 1) * GRID_SIZE);
+
+  const placed = new Map<PortSide, number>();
+  const terminals = ports.map((port, index) => {
+    const slot = (placed.get(port.side) ?? 0) + 1;
+    placed.set(port.side, slot);
+    const along = slot * GRID_SIZE;
+    const terminal: Terminal = {
+      id: `p${index + 1}`,
+      name: port.name,
+      x: port.side === 'left' ? 0 : port.side === 'right' ? width : along,
+      y: port.side === 'top' ? 0 : port.side === 'bottom' ? height : along,
+      binding: port.binding,
+    };
+    return { terminal, input: INPUT_SIDES.includes(port.side) };
+  });
+
+  return {
+    inputs: terminals.filter(t => t.input).map(t => t.terminal),
+    outputs: terminals.filter(t => !t.input).map(t => t.terminal),
+    width,
+    height,
+  };
+}
+
+// Moves the selected components and their internal wires into a new definition, drops an instance
+// where the selection was and reconnects every boundary wire to the port bound to its inside end
+export function createSubcircuit(
+  name: string,
+  selectedIds: string[],
+  ports: PortProposal[],
+  components: CircuitComponent[],
+  wires: Wire[],
+  subcircuits: SubCircuit[],
+  stamp: string = Date.now().toString() // Makes the new subcircuit and instance ids unique
+): SubcircuitCreation {
+  const selected = components.filter(c => selectedIds.includes(c.id));
+  const bounds = boundsOf(selected, subcircuits);
+  const origin = {
+    x: Math.floor(bounds.left / GRID_SIZE) * GRID_SIZE,
+    y: Math.floor(bounds.top / GRID_SIZE) * GRID_SIZE,
+  };
+  const { inputs, outputs, width, height } = layoutPorts(ports);
+  const internalWires = wiresWithin(selectedIds, wires);
+
+  const subcircuit: SubCircuit = {
+    id: `subcircuit_${stamp}`,
+    name,
+    // Internal coordinates are relative to the instance position
+    internalComponents: selected.map(c => ({ ...c, x: c.x - origin.x, y: c.y - origin.y })),
+    internalWires: internalWires.map(w => translateWire(w, -origin.x, -origin.y)),
+    inputs,
+    outputs,
+    width,
+    height,
+  };
+
+  const instance: CircuitComponent = {
+    id: stamp,
+    type: 'subcircuit',
+    x: origin.x,
+    y: origin.y,
+    value: 0,
+    subcircuitId: subcircuit.id,
+  };
+
+  const portTerminals = [...inputs, ...outputs];
+  const insideEnd = insideEndResolver(selectedIds, wires);
+  const toPort = (end: WireEnd): WireEnd | null => {
+    const inside = insideEnd(end);
+    if (!inside) return end;
+    const index = portTerminals.findIndex(t => sameTerminal(t.binding, inside));
+    return index === -1 ? null : { componentId: instance.id, terminal: index };
+  };
+
+  const remainingWires: Wire[] = [];
+  wires.forEach(wire => {
+    if (internalWires.includes(wire)) return;
+    const from = toPort(wire.from);
+    const to = toPort(wire.to);
+    // A boundary wire whose inside terminal has no port can no longer be connected
+    if (from && to) remainingWires.push({ ...wire, from, to });
+  });
+
+  return {
+    subcircuit,
+    instance,
+    components: [...components.filter(c => !selectedIds.includes(c.id)), instance],
+    wires: remainingWires,
+  };
+}
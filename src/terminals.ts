@@ -0,0 +1,186 @@
+// src/terminals.ts
+// Pin registry shared by the canvas (hit-testing, wire endpoints) and the simulator
+// (node creation). The index of a pin in its list is the terminal number stored in wires.
+import { CircuitComponent, ComponentType, SubCircuit } from './types/types';
+import { COMPONENT_SIZE } from './constants';
+
+export type TerminalRole =
+  | 'passive' // either end of a two-terminal part
+  | 'positive'
+  | 'negative'
+  | 'control' // sensing input of a controlled source
+  | 'anode'
+  | 'cathode'
+  | 'collector'
+  | 'base'
+  | 'emitter'
+  | 'port' // subcircuit port
+  | 'net'; // pin of a ground, label or power rail symbol
+
+export interface TerminalDefinition {
+  name: string;
+  x: number; // relative to the component's top-left corner
+  y: number;
+  role: TerminalRole;
+}
+
+const LEFT = { x: 0, y: COMPONENT_SIZE / 2 };
+const RIGHT = { x: COMPONENT_SIZE, y: COMPONENT_SIZE / 2 };
+const TOP = { x: COMPONENT_SIZE / 2, y: 0 };
+const BOTTOM = { x: COMPONENT_SIZE / 2, y: COMPONENT_SIZE };
+
+// Controlled sources: the output pins (positive first) on the right, as on an independent
+// source, and the control pins (positive first) on the left. Voltage-controlled sources sense
+// the voltage across the control pins; current-controlled ones are a short between them and
+// sense the current flowing in at the positive control pin.
+const controlledSource: TerminalDefinition[] = [
+  { name: '+', x: (COMPONENT_SIZE * 3) / 4, y: 0, role: 'positive' },
+  { name: '-', x: (COMPONENT_SIZE * 3) / 4, y: COMPONENT_SIZE, role: 'negative' },
+  { name: 'C+', x: 0, y: COMPONENT_SIZE / 4, role: 'control' },
+  { name: 'C-', x: 0, y: (COMPONENT_SIZE * 3) / 4, role: 'control' },
+];
+
+const twoTerminal = (first: TerminalRole, second: TerminalRole, names: [string, string]): TerminalDefinition[] => [
+  { name: names[0], ...LEFT, role: first },
+  { name: names[1], ...RIGHT, role: second },
+];
+
+export const TERMINAL_DEFINITIONS: Record<Exclude<ComponentType, 'subcircuit'>, TerminalDefinition[]> = {
+  resistor: twoTerminal('passive', 'passive', ['1', '2']),
+  capacitor: twoTerminal('passive', 'passive', ['1', '2']),
+  inductor: twoTerminal('passive', 'passive', ['1', '2']),
+  bulb: twoTerminal('passive', 'passive', ['1', '2']),
+  spst: twoTerminal('passive', 'passive', ['1', '2']),
+  spdt: [
+    { name: 'COM', ...LEFT, role: 'passive' },
+    { name: 'NC', x: COMPONENT_SIZE, y: COMPONENT_SIZE / 4, role: 'passive' },
+    { name: 'NO', x: COMPONENT_SIZE, y: (COMPONENT_SIZE * 3) / 4, role: 'passive' },
+  ],
+  diode: twoTerminal('anode', 'cathode', ['A', 'K']),
+  voltage: [
+    { name: '+', ...TOP, role: 'positive' },
+    { name: '-', ...BOTTOM, role: 'negative' },
+  ],
+  // Current flows from + through the source to -, as in SPICE
+  current: [
+    { name: '+', ...TOP, role: 'positive' },
+    { name: '-', ...BOTTOM, role: 'negative' },
+  ],
+  vcvs: controlledSource,
+  vccs: controlledSource,
+  ccvs: controlledSource,
+  cccs: controlledSource,
+  transistor: [
+    { name: 'C', x: (COMPONENT_SIZE * 3) / 4, y: 0, role: 'collector' },
+    { name: 'B', ...LEFT, role: 'base' },
+    { name: 'E', x: (COMPONENT_SIZE * 3) / 4, y: COMPONENT_SIZE, role: 'emitter' },
+  ],
+  ground: [{ name: 'GND', ...TOP, role: 'net' }],
+  label: [{ name: 'net', ...LEFT, role: 'net' }],
+  rail: [{ name: 'net', ...BOTTOM, role: 'net' }],
+};
+
+// Symbols that only name or join nets; they have no electrical behaviour of their own
+export const isNetSymbol = (component: CircuitComponent) =>
+  component.type === 'ground' || component.type === 'label' || component.type === 'rail';
+
+// Subcircuit instances expose their inputs followed by their outputs
+export function terminalsOf(component: CircuitComponent, subcircuits: SubCircuit[] = []): TerminalDefinition[] {
+  if (component.type === 'subcircuit') {
+    const subcircuitDef = subcircuits.find(s => s.id === component.subcircuitId);
+    if (!subcircuitDef) return [];
+    return [...subcircuitDef.inputs, ...subcircuitDef.outputs].map(t => ({ name: t.name, x: t.x, y: t.y, role: 'port' }));
+  }
+  return TERMINAL_DEFINITIONS[component.type];
+}
+
+// Size of the component's symbol as drawn, before rotation; subcircuit instances use their
+// definition's bounding box
+export function drawingSize(component: CircuitComponent, subcircuits: SubCircuit[] = []): { width: number; height: number } {
+  if (component.type === 'subcircuit' && component.subcircuitId) {
+    const subcircuitDef = subcircuits.find(s => s.id === component.subcircuitId);
+    if (subcircuitDef) return { width: subcircuitDef.width, height: subcircuitDef.height };
+  }
+  return { width: COMPONENT_SIZE, height: COMPONENT_SIZE };
+}
+
+// Orientation: the symbol is first mirrored left-to-right (if `mirrored`), then rotated clockwise
+// by `rotation` degrees in 90° steps. The oriented bounding box keeps its top-left corner at (x, y).
+const quarterTurnsOf = (component: CircuitComponent) => ((Math.round((component.rotation ?? 0) / 90) % 4) + 4) % 4;
+
+// Size of the bounding box on the canvas, after rotation
+export function componentSize(component: CircuitComponent, subcircuits: SubCircuit[] = []): { width: number; height: number } {
+  const { width, height } = drawingSize(component, subcircuits);
+  return quarterTurnsOf(component) % 2 === 1 ? { width: height, height: width } : { width, height };
+}
+
+// Maps a point of the symbol drawing to where it ends up on the canvas, both relative to the
+// component's top-left corner
+export function orientPoint(
+  component: CircuitComponent,
+  x: number,
+  y: number,
+  subcircuits: SubCircuit[] = []
+): { x: number; y: number } {
+  const { width, height } = drawingSize(component, subcircuits);
+  const px = component.mirrored ? width - x : x;
+  switch (quarterTurnsOf(component)) {
+    case 1: return { x: height - y, y: px };
+    case 2: return { x: width - px, y: height - y };
+    case 3: return { x: y, y: width - px };
+    default: return { x: px, y };
+  }
+}
+
+// The same mapping as an SVG transform, for the group holding the symbol drawing
+export function orientationTransform(component: CircuitComponent, subcircuits: SubCircuit[] = []): string {
+  const { width, height } = drawingSize(component, subcircuits);
+  const rotations = ['', `matrix(0,1,-1,0,${height},0)`, `matrix(-1,0,0,-1,${width},${height})`, `matrix(0,-1,1,0,0,${width})`];
+  // SVG applies the rightmost transform first
+  return [rotations[quarterTurnsOf(component)], component.mirrored ? `matrix(-1,0,0,1,${width},0)` : '']
+    .filter(t => t !== '')
+    .join(' ');
+}
+
+// Canvas position of a pin relative to the component's top-left corner, after orientation
+export function terminalPosition(
+  component: CircuitComponent,
+  terminal: number,
+  subcircuits: SubCircuit[] = []
+): { x: number; y: number } | null {
+  const definition = terminalsOf(component, subcircuits)[terminal];
+  return definition ? orientPoint(component, definition.x, definition.y, subcircuits) : null;
+}
+
+// Index of the pin closest to (x, y), given relative to the component, or null if it has no pins
+export function nearestTerminal(
+  component: CircuitComponent,
+  x: number,
+  y: number,
+  subcircuits: SubCircuit[] = []
+): number | null {
+  const terminals = terminalsOf(component, subcircuits);
+  if (terminals.length === 0) return null;
+
+  const distances = terminals.map(term => {
+    const position = orientPoint(component, term.x, term.y, subcircuits);
+    return Math.hypot(x - position.x, y - position.y);
+  });
+  return distances.indexOf(Math.min(...distances));
+}
+
+// Smallest box around the components, in canvas coordinates
+export function boundsOf(components: CircuitComponent[], subcircuits: SubCircuit[]) {
+  return components.reduce(
+    (bounds, c) => {
+      const { width, height } = componentSize(c, subcircuits);
+      return {
+        left: Math.min(bounds.left, c.x),
+        top: Math.min(bounds.top, c.y),
+        right: Math.max(bounds.right, c.x + width),
+        bottom: Math.max(bounds.bottom, c.y + height),
+      };
+    },
+    { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity }
+  );
+}
@@ -1,5 +1,29 @@
 // src/types/types.ts
-export type ComponentType = 'resistor' | 'capacitor' | 'inductor' | 'voltage' | 'diode' | 'transistor' | 'bulb' | 'subcircuit';
+export type ComponentType =
+  | 'resistor'
+  | 'capacitor'
+  | 'inductor'
+  | 'voltage'
+  | 'current' // independent current source
+  | 'vcvs' // voltage-controlled voltage source (SPICE E)
+  | 'vccs' // voltage-controlled current source (SPICE G)
+  | 'ccvs' // current-controlled voltage source (SPICE H)
+  | 'cccs' // current-controlled current source (SPICE F)
+  | 'diode'
+  | 'transistor'
+  | 'bulb'
+  | 'spst' // on/off switch
+  | 'spdt' // changeover switch
+  | 'ground' // reference net (0 V)
+  | 'label' // joins same-named labels at its level of the hierarchy
+  | 'rail' // power rail, joins same-named rails everywhere, including inside subcircuits
+  | 'subcircuit';
+
+// A specific terminal of a specific component
+export interface TerminalRef {
+  componentId: string;
+  terminal: number; // index into the component type's pin list (see src/terminals.ts)
+}
 
 export interface Terminal {
   id: string; // A unique identifier for the terminal within the subcircuit context
@@ -8,6 +32,65 @@ export interface Terminal {
   y: number; // relative y position within the subcircuit's bounding box
   // This helps visually place connection points on the subcircuit's rendered shape
   // For simplicity, we can use relative positions (0-1 for normalized, or pixels)
+  binding: TerminalRef; // Internal component terminal this port connects to
+}
+
+// Shockley diode parameters
+export interface DiodeModel {
+  saturationCurrent: number; // Is, amps
+  emissionCoefficient: number; // n (ideality factor)
+  seriesResistance: number; // Rs, ohms
+}
+
+// Ebers-Moll transport model parameters for the transistor component
+export interface BjtModel {
+  polarity: 'npn' | 'pnp';
+  forwardBeta: number; // βF
+  reverseBeta: number; // βR
+  saturationCurrent: number; // Is, amps
+}
+
+// Incandescent bulb, modelled as the resistance it has at its rating (ratedVoltage² / ratedPower)
+export interface BulbModel {
+  ratedVoltage: number; // volts
+  ratedPower: number; // watts dissipated at the rated voltage
+}
+
+// Switch resistances and state. The state can be flipped by hand (double-click on the canvas) and
+// at fixed times during a transient analysis.
+export interface SwitchModel {
+  closed: boolean; // in DC analyses and at t=0; an SPDT joins COM to NO when closed and to NC when open
+  toggleTimes: number[]; // seconds into a transient at which the switch flips, ascending
+  onResistance: number; // ohms
+  offResistance: number; // ohms
+}
+
+// Time dependence of an independent source in transient analysis, as in SPICE
+export type SourceWaveform =
+  | {
+      kind: 'sin';
+      offset: number;
+      amplitude: number;
+      frequency: number; // Hz
+      phase: number; // degrees
+      delay: number; // seconds at the offset (plus the phase) before the sine starts
+    }
+  | {
+      kind: 'pulse';
+      initial: number;
+      pulsed: number;
+      delay: number; // seconds, as are the remaining fields
+      rise: number;
+      fall: number;
+      width: number;
+      period: number; // 0 for a single pulse
+    }
+  | { kind: 'pwl'; points: { time: number; value: number }[] }; // ascending times, held flat outside
+
+// Manufacturing spread of a component's value, used by the Monte Carlo and worst-case analyses
+export interface Tolerance {
+  percent: number; // e.g. 5 for a ±5% resistor
+  distribution: 'uniform' | 'gaussian'; // Gaussian parts have the tolerance at 3σ
 }
 
 export interface CircuitComponent {
@@ -15,17 +98,45 @@ export interface CircuitComponent {
   type: ComponentType;
   x: number;
   y: number;
-  value: number; // For basic components
-  rotation?: number;
-  // For subcircuits, this will store internal components and wires, and terminal mappings
+  value: number; // For basic components; the gain of controlled sources
+  rotation?: number; // degrees clockwise, in 90° steps
+  mirrored?: boolean; // flipped left-to-right before the rotation is applied
+  // Small-signal AC stimulus for independent sources. In AC analysis a voltage source without
+  // acMagnitude is shorted and a current source opened.
+  acMagnitude?: number; // volts, or amps for current sources
+  acPhase?: number; // degrees
+  // Transient waveform of an independent source; `value` stays the DC value for the operating point and sweeps
+  waveform?: SourceWaveform;
+  diodeModel?: Partial<DiodeModel>; // Missing fields fall back to the simulator defaults
+  bjtModel?: Partial<BjtModel>; // Transistor terminals: 0 = collector, 1 = base, 2 = emitter
+  bulbModel?: Partial<BulbModel>;
+  switchModel?: Partial<SwitchModel>; // SPDT terminals: 0 = COM, 1 = NC, 2 = NO
+  tolerance?: Tolerance; // Resistors, capacitors, inductors and sources; exact when missing
+  netName?: string; // Net named by a label or power rail, e.g. "VCC"
+  // For subcircuits, the blueprint holds the internal components, wires and port bindings
   subcircuitId?: string; // Links to a defined SubCircuit blueprint
-  terminalMap?: { [subCircuitTerminalId: string]: { componentId: string; terminal: number } };
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A wire end that lands on another wire instead of a pin, at the point where it touches it.
+// Both wires then belong to the same net.
+export interface WireJoint {
+  wireId: string;
+  x: number;
+  y: number;
+}
+
+export type WireEnd = TerminalRef | WireJoint;
+
 export interface Wire {
   id: string;
-  from: { componentId: string; terminal: number };
-  to: { componentId: string; terminal: number };
+  from: WireEnd;
+  to: WireEnd;
+  waypoints?: Point[]; // corners between the two ends, in world coordinates (see src/wires.ts)
 }
 
 export interface SubCircuit {
@@ -39,4 +150,17 @@ export interface SubCircuit {
   height: number; // Bounding box for rendering
 }
 
-export type ToolMode = 'select' | 'add' | 'wire' | 'subcircuit_create'; // Added subcircuit_create
\ No newline at end of file
+// Measurement point for the plot panel. A voltage probe sits on a wire and reads its net; a
+// current probe sits on a component and reads the current into its first terminal.
+export type Probe =
+  | { id: string; kind: 'voltage'; at: WireJoint } // where it was dropped; the marker follows the wire
+  | { id: string; kind: 'current'; componentId: string };
+
+// Canvas view state saved with the project
+export interface ViewSettings {
+  zoom: number; // scale factor, 1 = 100%
+  panX: number; // screen offset of the world origin, pixels
+  panY: number;
+}
+
+export type ToolMode = 'select' | 'add' | 'wire' | 'probe' | 'subcircuit_create'; // Added subcircuit_create
\ No newline at end of file
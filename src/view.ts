@@ -0,0 +1,52 @@
+// src/view.ts
+// Mapping between screen pixels (relative to the canvas element) and world coordinates, in
+// which components, wires and the grid live. screen = world * zoom + pan.
+import { CircuitComponent, SubCircuit, ViewSettings } from './types/types';
+import { boundsOf } from './terminals';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+export const ZOOM_STEP = 1.2; // Factor per wheel notch or zoom button press
+const FIT_MARGIN = 40; // Screen pixels left free around the schematic by zoom to fit
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export function screenToWorld(view: ViewSettings, x: number, y: number): { x: number; y: number } {
+  return { x: (x - view.panX) / view.zoom, y: (y - view.panY) / view.zoom };
+}
+
+// SVG transform placing world coordinates on screen
+export function viewTransform(view: ViewSettings): string {
+  return `translate(${view.panX}, ${view.panY}) scale(${view.zoom})`;
+}
+
+// Scales by `factor` while keeping the world point under the screen position (x, y) in place
+export function zoomAt(view: ViewSettings, factor: number, x: number, y: number): ViewSettings {
+  const zoom = clampZoom(view.zoom * factor);
+  const scale = zoom / view.zoom;
+  return { zoom, panX: x - (x - view.panX) * scale, panY: y - (y - view.panY) * scale };
+}
+
+// Largest zoom (up to 100%) that shows every component in a width x height canvas, centred.
+// An empty schematic returns to the default view.
+export function fitView(
+  components: CircuitComponent[],
+  subcircuits: SubCircuit[],
+  width: number,
+  height: number
+): ViewSettings {
+  if (components.length === 0) return { zoom: 1, panX: 0, panY: 0 };
+  const bounds = boundsOf(components, subcircuits);
+  const contentWidth = Math.max(bounds.right - bounds.left, 1);
+  const contentHeight = Math.max(bounds.bottom - bounds.top, 1);
+  const zoom = clampZoom(Math.min(
+    (width - 2 * FIT_MARGIN) / contentWidth,
+    (height - 2 * FIT_MARGIN) / contentHeight,
+    1
+  ));
+  return {
+    zoom,
+    panX: width / 2 - ((bounds.left + bounds.right) / 2) * zoom,
+    panY: height / 2 - ((bounds.top + bounds.bottom) / 2) * zoom,
+  };
+}
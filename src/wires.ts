@@ -0,0 +1,196 @@
+// src/wires.ts
+// Wire routing and wire-to-wire connectivity. A wire runs from its `from` end through its
+// waypoints to its `to` end using horizontal and vertical segments only. Each end sits on a
+// component pin or on another wire (a WireJoint); joined wires form one net.
+import { CircuitComponent, Wire, WireEnd, WireJoint, SubCircuit, TerminalRef, Point } from './types/types';
+import { GRID_SIZE } from './constants';
+import { terminalPosition } from './terminals';
+
+export const isWireJoint = (end: WireEnd): end is WireJoint => 'wireId' in end;
+
+// Where a wire end is in world coordinates, or null when its component or pin is gone
+export function endPosition(end: WireEnd, components: CircuitComponent[], subcircuits: SubCircuit[]): Point | null {
+  if (isWireJoint(end)) return { x: end.x, y: end.y };
+  const component = components.find(c => c.id === end.componentId);
+  const offset = component && terminalPosition(component, end.terminal, subcircuits);
+  return offset ? { x: component.x + offset.x, y: component.y + offset.y } : null;
+}
+
+// Inserts an elbow between consecutive points that are not on one horizontal or vertical
+// line, taking the horizontal leg first
+export function orthogonalRoute(points: Point[]): Point[] {
+  const route: Point[] = [];
+  points.forEach(point => {
+    const previous = route[route.length - 1];
+    if (previous && previous.x !== point.x && previous.y !== point.y) route.push({ x: point.x, y: previous.y });
+    route.push(point);
+  });
+  return route;
+}
+
+// Corner points of the drawn wire, or null when one of its ends is dangling
+export function wireRoute(wire: Wire, components: CircuitComponent[], subcircuits: SubCircuit[]): Point[] | null {
+  const from = endPosition(wire.from, components, subcircuits);
+  const to = endPosition(wire.to, components, subcircuits);
+  if (!from || !to) return null;
+  return orthogonalRoute([from, ...(wire.waypoints ?? []), to]);
+}
+
+// Points where three or more wire segments meet. A wire ending on another wire splits that
+// wire, so its joint counts as three segment ends.
+export function junctionPoints(wires: Wire[], components: CircuitComponent[], subcircuits: SubCircuit[]): Point[] {
+  const counts = new Map<string, { point: Point; count: number }>();
+  const add = (point: Point, count: number) => {
+    const key = `${point.x},${point.y}`;
+    const entry = counts.get(key) ?? { point, count: 0 };
+    counts.set(key, { ...entry, count: entry.count + count });
+  };
+  wires.forEach(wire => {
+    const route = wireRoute(wire, components, subcircuits);
+    if (!route) return;
+    add(route[0], isWireJoint(wire.from) ? 3 : 1);
+    add(route[route.length - 1], isWireJoint(wire.to) ? 3 : 1);
+  });
+  return Array.from(counts.values()).filter(entry => entry.count >= 3).map(entry => entry.point);
+}
+
+// The point on a wire closest to (x, y), snapped to the grid along its segment, if one lies
+// within `tolerance`
+export function hitWire(
+  x: number,
+  y: number,
+  wires: Wire[],
+  components: CircuitComponent[],
+  subcircuits: SubCircuit[],
+  tolerance: number
+): WireJoint | null {
+  const snap = (value: number, low: number, high: number) =>
+    Math.min(high, Math.max(low, Math.round(value / GRID_SIZE) * GRID_SIZE));
+  let best: WireJoint | null = null;
+  let bestDistance = tolerance;
+  for (const wire of wires) {
+    const route = wireRoute(wire, components, subcircuits) ?? [];
+    for (let i = 1; i < route.length; i++) {
+      const a = route[i - 1];
+      const b = route[i];
+      const point = a.y === b.y
+        ? { x: snap(x, Math.min(a.x, b.x), Math.max(a.x, b.x)), y: a.y }
+        : { x: a.x, y: snap(y, Math.min(a.y, b.y), Math.max(a.y, b.y)) };
+      const distance = Math.hypot(x - point.x, y - point.y);
+      if (distance <= bestDistance) {
+        best = { wireId: wire.id, ...point };
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
+
+// Wires lying entirely within a group of components: each end is on one of the components or
+// on another wire of the group
+export function wiresWithin(componentIds: string[], wires: Wire[]): Wire[] {
+  const inside = new Set<string>();
+  const endInside = (end: WireEnd) => (isWireJoint(end) ? inside.has(end.wireId) : componentIds.includes(end.componentId));
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const wire of wires) {
+      if (!inside.has(wire.id) && endInside(wire.from) && endInside(wire.to)) {
+        inside.add(wire.id);
+        grown = true;
+      }
+    }
+  }
+  return wires.filter(w => inside.has(w.id));
+}
+
+// Wires that lose an end when the components are removed, including wires joined to those
+export function wiresAttachedTo(componentIds: string[], wires: Wire[]): Wire[] {
+  const attached = new Set<string>();
+  const endAttached = (end: WireEnd) => (isWireJoint(end) ? attached.has(end.wireId) : componentIds.includes(end.componentId));
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const wire of wires) {
+      if (!attached.has(wire.id) && (endAttached(wire.from) || endAttached(wire.to))) {
+        attached.add(wire.id);
+        grown = true;
+      }
+    }
+  }
+  return wires.filter(w => attached.has(w.id));
+}
+
+// A pin on the same net as the wire, found by following joints; null for a net without pins
+export function anchorTerminal(wireId: string, wires: Wire[]): TerminalRef | null {
+  const visited = new Set<string>();
+  const search = (id: string): TerminalRef | null => {
+    const wire = wires.find(w => w.id === id);
+    if (!wire || visited.has(id)) return null;
+    visited.add(id);
+    for (const end of [wire.from, wire.to]) {
+      const found = isWireJoint(end) ? search(end.wireId) : end;
+      if (found) return found;
+    }
+    return null;
+  };
+  return search(wireId);
+}
+
+// The wire moved by (dx, dy): its waypoints and the points where it lands on other wires
+export function translateWire(wire: Wire, dx: number, dy: number): Wire {
+  const moveEnd = (end: WireEnd): WireEnd => (isWireJoint(end) ? { ...end, x: end.x + dx, y: end.y + dy } : end);
+  return {
+    ...wire,
+    from: moveEnd(wire.from),
+    to: moveEnd(wire.to),
+    ...(wire.waypoints && { waypoints: wire.waypoints.map(p => ({ x: p.x + dx, y: p.y + dy })) }),
+  };
+}
+
+// After a move, wire ends that sit on a wire whose route changed go back onto that wire: carried
+// along when the host kept its shape, otherwise to the nearest point of its new route (the way
+// voltage probes follow their wire). Ends on such a wire follow in turn, down the chain.
+// `newWires` lists the same wires in the same order as `oldWires`, with the ones the move
+// carried replaced.
+export function rejoinWires(
+  oldWires: Wire[],
+  oldComponents: CircuitComponent[],
+  newWires: Wire[],
+  newComponents: CircuitComponent[],
+  subcircuits: SubCircuit[]
+): Wire[] {
+  const oldRoutes = new Map(oldWires.map(w => [w.id, wireRoute(w, oldComponents, subcircuits)]));
+  const sameEnd = (a: WireEnd, b: WireEnd) => a === b || (isWireJoint(a) && isWireJoint(b) && a.x === b.x && a.y === b.y);
+  const carried = new Set(newWires.filter((w, i) => w !== oldWires[i]).map(w => w.id));
+  let result = newWires;
+  // Where an end lands on its host's current route, from where it was on the host's old route
+  const follow = (end: WireEnd): WireEnd => {
+    if (!isWireJoint(end)) return end;
+    const host = result.find(w => w.id === end.wireId);
+    const oldRoute = oldRoutes.get(end.wireId);
+    const newRoute = host && wireRoute(host, newComponents, subcircuits);
+    if (!host || !oldRoute || !newRoute) return end;
+    const offset = { x: newRoute[0].x - oldRoute[0].x, y: newRoute[0].y - oldRoute[0].y };
+    const sameShape = newRoute.length === oldRoute.length &&
+      newRoute.every((p, i) => p.x - oldRoute[i].x === offset.x && p.y - oldRoute[i].y === offset.y);
+    return sameShape
+      ? { ...end, x: end.x + offset.x, y: end.y + offset.y }
+      : hitWire(end.x, end.y, [host], newComponents, subcircuits, Infinity) ?? end;
+  };
+  // Each pass settles one more link of a chain of joints
+  for (let pass = 0; pass <= newWires.length; pass++) {
+    let changed = false;
+    result = result.map((wire, index) => {
+      if (carried.has(wire.id)) return wire;
+      const original = oldWires[index];
+      const from = follow(original.from);
+      const to = follow(original.to);
+      if (sameEnd(from, wire.from) && sameEnd(to, wire.to)) return wire;
+      changed = true;
+      return { ...wire, from, to };
+    });
+    if (!changed) break;
+  }
+  return result;
+}